@@ -0,0 +1,423 @@
+import { internalQuery, QueryCtx } from "./_generated/server";
+import { IndexRange } from "convex/server";
+import { Infer, v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { EventInput } from "./ingestion";
+import { validateValue, ValidationIssue } from "./eventRegistry";
+import { buildEvent } from "./commands";
+import { MAX_BATCH_EVENTS } from "./rateLimits";
+
+/**
+ * Bulk Task Operations
+ *
+ * POST /api/tasks/bulk applies one operation (complete, move, tag, ...) to
+ * many tasks, picked by ID or by a filter. Each affected task gets its own
+ * event, and all of them are ingested in one batch recorded as a single undo
+ * action, so triaging hundreds of tasks is one request and one undo.
+ *
+ * Tasks already in the target state are skipped (reported as unchanged), so
+ * rerunning an operation is harmless.
+ */
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+const priorityValidator = v.union(
+  v.literal("none"),
+  v.literal("low"),
+  v.literal("medium"),
+  v.literal("high")
+);
+
+export const bulkOperationValidator = v.union(
+  v.object({ type: v.literal("complete") }),
+  v.object({ type: v.literal("uncomplete") }),
+  v.object({ type: v.literal("delete") }),
+  v.object({ type: v.literal("move"), listId: v.string() }),
+  v.object({ type: v.literal("set_priority"), priority: priorityValidator }),
+  v.object({ type: v.literal("add_tag"), tagId: v.string() }),
+  v.object({ type: v.literal("remove_tag"), tagId: v.string() }),
+  v.object({
+    type: v.literal("reschedule"),
+    dueDate: v.union(v.string(), v.null()),
+    dueTime: v.optional(v.union(v.string(), v.null())),
+  })
+);
+
+// Conditions a task must all meet; due dates compare as ISO strings
+export const bulkFilterValidator = v.object({
+  listId: v.optional(v.string()),
+  completed: v.optional(v.boolean()),
+  flag: v.optional(v.boolean()),
+  priority: v.optional(priorityValidator),
+  tagId: v.optional(v.string()),
+  dueBefore: v.optional(v.string()),
+  dueAfter: v.optional(v.string()),
+});
+
+// Ways of picking the targeted tasks
+const bulkTargetFields = {
+  taskIds: v.optional(v.array(v.string())),
+  filter: v.optional(bulkFilterValidator),
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Index range positioned at an index's dueDate field, after its equalities
+interface DueRangeBuilder extends IndexRange {
+  gt(fieldName: "dueDate", value: string): DueUpperBound;
+  gte(fieldName: "dueDate", value: string): DueUpperBound;
+}
+
+interface DueUpperBound extends IndexRange {
+  lt(fieldName: "dueDate", value: string): IndexRange;
+}
+
+export type BulkOperation = Infer<typeof bulkOperationValidator>;
+
+export type BulkFilter = Infer<typeof bulkFilterValidator>;
+
+export interface BulkRequest {
+  taskIds?: string[];
+  filter?: BulkFilter;
+  operation: BulkOperation;
+}
+
+/**
+ * Outcome for one targeted task
+ *
+ * - updated: an event was written
+ * - unchanged: the task was already in the target state
+ * - failed: not found, or its event was rejected
+ */
+export interface BulkTaskResult {
+  taskId: string;
+  status: "updated" | "unchanged" | "failed";
+  eventId?: string;
+  reason?: string;
+  message?: string;
+}
+
+/**
+ * Which task each event of a bulk request was built for, and the targets
+ * that got no event; stored with an Idempotency-Key so a replay can report
+ * the first request's results
+ */
+export interface BulkPlan {
+  eventTaskIds: string[];
+  unchanged: string[];
+  missing: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Tasks one bulk request may target (one event each)
+export const MAX_BULK_TASKS = MAX_BATCH_EVENTS;
+
+// Tasks a filter may read before it's rejected as too broad
+export const MAX_FILTER_SCAN = 2000;
+
+// ============================================================================
+// Request Parsing
+// ============================================================================
+
+/**
+ * Check a bulk request body
+ *
+ * Exactly one of taskIds and filter must be given; a filter must set at
+ * least one condition, so an empty one can't hit every task by accident.
+ */
+export function parseBulkRequest(
+  body: unknown
+): { success: true; request: BulkRequest } | { success: false; errors: ValidationIssue[] } {
+  // Check the operation against its own validator, for errors that name its fields
+  const type = (body as { operation?: { type?: unknown } } | null)?.operation?.type;
+  const operation = bulkOperationValidator.members.find((member) => member.fields.type.value === type);
+  if (!operation) {
+    const types = bulkOperationValidator.members.map((member) => JSON.stringify(member.fields.type.value));
+    return {
+      success: false,
+      errors: [{ path: "operation.type", message: `Expected one of ${types.join(", ")}` }],
+    };
+  }
+
+  const errors = validateValue(v.object({ ...bulkTargetFields, operation }), body, "");
+  if (errors.length > 0) {
+    return {
+      success: false,
+      errors: errors.map((issue) => ({ ...issue, path: issue.path.replace(/^\./, "") })),
+    };
+  }
+
+  const request = body as BulkRequest;
+
+  if ((request.taskIds === undefined) === (request.filter === undefined)) {
+    return { success: false, errors: [{ path: "", message: "Set exactly one of taskIds and filter" }] };
+  }
+
+  if (request.filter && Object.keys(request.filter).length === 0) {
+    return { success: false, errors: [{ path: "filter", message: "Set at least one condition" }] };
+  }
+
+  if (request.taskIds && request.taskIds.length > MAX_BULK_TASKS) {
+    return { success: false, errors: [{ path: "taskIds", message: `At most ${MAX_BULK_TASKS} IDs` }] };
+  }
+
+  return { success: true, request };
+}
+
+// ============================================================================
+// Event Building
+// ============================================================================
+
+/**
+ * Build one event per task the operation changes
+ *
+ * Moved tasks are appended to the target list from `sortOrder` on.
+ */
+export function buildBulkEvents(
+  operation: BulkOperation,
+  tasks: Doc<"tasksProjection">[],
+  sortOrder: number = 0
+): { events: EventInput[]; eventTaskIds: string[]; unchanged: string[] } {
+  const now = Date.now();
+  const events: EventInput[] = [];
+  const eventTaskIds: string[] = [];
+  const unchanged: string[] = [];
+
+  for (const task of tasks) {
+    const change = describeChange(operation, task, sortOrder + events.length);
+    if (!change) {
+      unchanged.push(task.taskId);
+      continue;
+    }
+
+    events.push(buildEvent(change.eventType, { taskId: task.taskId, ...change.payload }, now));
+    eventTaskIds.push(task.taskId);
+  }
+
+  return { events, eventTaskIds, unchanged };
+}
+
+/**
+ * The event an operation needs for a task, or null if it has no effect
+ */
+function describeChange(
+  operation: BulkOperation,
+  task: Doc<"tasksProjection">,
+  sortOrder: number
+): { eventType: string; payload: Record<string, unknown> } | null {
+  switch (operation.type) {
+    case "complete":
+      return task.completed ? null : { eventType: "tasks.task.completed", payload: {} };
+
+    case "uncomplete":
+      return task.completed ? { eventType: "tasks.task.uncompleted", payload: {} } : null;
+
+    case "delete":
+      return { eventType: "tasks.task.deleted", payload: {} };
+
+    case "move":
+      return task.listId === operation.listId
+        ? null
+        : { eventType: "tasks.task.moved", payload: { listId: operation.listId, sortOrder } };
+
+    case "set_priority":
+      return task.priority === operation.priority
+        ? null
+        : { eventType: "tasks.task.updated", payload: { priority: operation.priority } };
+
+    case "add_tag":
+      return task.tags.includes(operation.tagId)
+        ? null
+        : { eventType: "tasks.task.updated", payload: { tags: [...task.tags, operation.tagId] } };
+
+    case "remove_tag":
+      return task.tags.includes(operation.tagId)
+        ? {
+            eventType: "tasks.task.updated",
+            payload: { tags: task.tags.filter((tagId) => tagId !== operation.tagId) },
+          }
+        : null;
+
+    case "reschedule": {
+      const dueTime = operation.dueTime === undefined ? task.dueTime ?? null : operation.dueTime;
+      if ((task.dueDate ?? null) === operation.dueDate && (task.dueTime ?? null) === dueTime) {
+        return null;
+      }
+      return {
+        eventType: "tasks.task.updated",
+        payload: { dueDate: operation.dueDate, dueTime },
+      };
+    }
+  }
+}
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * Resolve the tasks a bulk request targets
+ *
+ * By ID, deleted or unknown tasks come back as missing. By filter, at most
+ * `limit` tasks are returned and `truncated` says whether more matched; the
+ * scan runs over the narrowest index the filter's conditions allow. A scan
+ * that reads MAX_FILTER_SCAN tasks stops there, with `tooBroad` set.
+ */
+export const queryBulkTargets = internalQuery({
+  args: {
+    userId: v.string(),
+    taskIds: v.optional(v.array(v.string())),
+    filter: v.optional(bulkFilterValidator),
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const tasks: Doc<"tasksProjection">[] = [];
+    const missing: string[] = [];
+
+    if (args.taskIds !== undefined) {
+      for (const taskId of new Set(args.taskIds)) {
+        const task = await ctx.db
+          .query("tasksProjection")
+          .withIndex("by_user_task", (q) => q.eq("userId", args.userId).eq("taskId", taskId))
+          .first();
+
+        if (!task || task.tombstoned) {
+          missing.push(taskId);
+        } else {
+          tasks.push(task);
+        }
+      }
+
+      return { tasks, missing, truncated: false, tooBroad: false };
+    }
+
+    const filter = args.filter ?? {};
+    let scanned = 0;
+
+    for await (const task of queryFilterCandidates(ctx, args.userId, filter)) {
+      if (scanned === MAX_FILTER_SCAN) {
+        return { tasks, missing, truncated: true, tooBroad: true };
+      }
+      scanned++;
+
+      if (!matchesFilter(task, filter)) {
+        continue;
+      }
+      if (tasks.length === args.limit) {
+        return { tasks, missing, truncated: true, tooBroad: false };
+      }
+      tasks.push(task);
+    }
+
+    return { tasks, missing, truncated: false, tooBroad: false };
+  },
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Tasks that may match a filter, read through the index it narrows most
+ *
+ * Due bounds become an index range where the index has dueDate after the
+ * filter's equality conditions; a tag is read through the task-tag index.
+ * matchesFilter checks everything else.
+ */
+function queryFilterCandidates(
+  ctx: QueryCtx,
+  userId: string,
+  filter: BulkFilter
+): AsyncIterable<Doc<"tasksProjection">> {
+  const { listId, completed, flag, priority, tagId, dueBefore, dueAfter } = filter;
+  const tasks = ctx.db.query("tasksProjection");
+
+  const dueRange = (q: DueRangeBuilder): IndexRange => {
+    if (dueBefore === undefined && dueAfter === undefined) return q;
+    const from = dueAfter !== undefined ? q.gt("dueDate", dueAfter) : q.gte("dueDate", "");
+    return dueBefore !== undefined ? from.lt("dueDate", dueBefore) : from;
+  };
+
+  if (listId !== undefined) {
+    return tasks.withIndex("by_user_list_order", (q) =>
+      q.eq("userId", userId).eq("listId", listId).eq("tombstoned", false)
+    );
+  }
+
+  if (tagId !== undefined) {
+    return queryTasksWithTag(ctx, userId, tagId);
+  }
+
+  if (flag !== undefined && completed !== undefined) {
+    return tasks.withIndex("by_user_flagged_due", (q) =>
+      dueRange(
+        q.eq("userId", userId).eq("flag", flag).eq("completed", completed).eq("tombstoned", false)
+      )
+    );
+  }
+
+  if (completed !== undefined) {
+    return tasks.withIndex("by_user_completed_due", (q) =>
+      dueRange(q.eq("userId", userId).eq("completed", completed).eq("tombstoned", false))
+    );
+  }
+
+  if (flag !== undefined) {
+    return tasks.withIndex("by_user_flagged_due", (q) => q.eq("userId", userId).eq("flag", flag));
+  }
+
+  if (dueBefore !== undefined || dueAfter !== undefined) {
+    return tasks.withIndex("by_user_due_date", (q) => dueRange(q.eq("userId", userId)));
+  }
+
+  if (priority !== undefined) {
+    return tasks.withIndex("by_user_priority", (q) =>
+      q.eq("userId", userId).eq("priority", priority)
+    );
+  }
+
+  return tasks.withIndex("by_user_active", (q) => q.eq("userId", userId).eq("tombstoned", false));
+}
+
+/**
+ * Live tasks carrying a tag, in task ID order
+ */
+async function* queryTasksWithTag(ctx: QueryCtx, userId: string, tagId: string) {
+  const rows = ctx.db
+    .query("taskTags")
+    .withIndex("by_user_tag", (q) => q.eq("userId", userId).eq("tagId", tagId));
+
+  for await (const row of rows) {
+    const task = await ctx.db
+      .query("tasksProjection")
+      .withIndex("by_user_task", (q) => q.eq("userId", userId).eq("taskId", row.taskId))
+      .first();
+
+    if (task) {
+      yield task;
+    }
+  }
+}
+
+function matchesFilter(task: Doc<"tasksProjection">, filter: BulkFilter): boolean {
+  if (task.tombstoned) return false;
+  if (filter.completed !== undefined && task.completed !== filter.completed) return false;
+  if (filter.flag !== undefined && task.flag !== filter.flag) return false;
+  if (filter.priority !== undefined && task.priority !== filter.priority) return false;
+  if (filter.tagId !== undefined && !task.tags.includes(filter.tagId)) return false;
+
+  if (filter.dueBefore !== undefined || filter.dueAfter !== undefined) {
+    if (!task.dueDate) return false;
+    if (filter.dueBefore !== undefined && task.dueDate >= filter.dueBefore) return false;
+    if (filter.dueAfter !== undefined && task.dueDate <= filter.dueAfter) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,415 @@
+import { internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+/**
+ * Event Hash Chain Module
+ *
+ * Makes the event log tamper-evident. Each event stored for a user gets the
+ * next position in that user's chain, the previous event's hash, and a
+ * SHA-256 over its content (consent snapshot reference included) plus that
+ * previous hash. Editing, deleting or inserting an event breaks a link,
+ * which verification reports as the first broken link.
+ *
+ * The chain follows insertion order, not timestamp order. Processing
+ * metadata (status, projectedAt, entityId) isn't hashed and may change.
+ * Events archived by compaction are verified from the archive.
+ * Events stored before chaining have no chain position and aren't covered.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChainLink {
+  chainIndex: number;
+  prevHash: string;
+  contentHash: string;
+}
+
+type BrokenLink = NonNullable<Doc<"chainVerifications">["brokenLink"]>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Event fields covered by the content hash
+const HASHED_FIELDS = [
+  "eventId",
+  "userId",
+  "deviceId",
+  "appId",
+  "timestamp",
+  "clientTimestamp",
+  "hlc",
+  "deviceSequence",
+  "serverTimestamp",
+  "eventType",
+  "schemaVersion",
+  "payload",
+  "mediaRefs",
+  "consentSnapshotId",
+  "chainIndex",
+  "prevHash",
+] as const;
+
+// Events checked per verification step
+const VERIFY_PAGE_SIZE = 200;
+
+// Users scheduled for verification per sweep run
+const USERS_PER_SWEEP = 50;
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+/**
+ * SHA-256 of an event's hashed fields, hex encoded
+ *
+ * Keys are serialized in sorted order at every level, so the hash doesn't
+ * depend on how the document's fields happen to be ordered.
+ */
+export async function hashEventContent(event: Record<string, unknown>): Promise<string> {
+  const content: Record<string, unknown> = {};
+  for (const field of HASHED_FIELDS) {
+    if (event[field] !== undefined) {
+      content[field] = event[field];
+    }
+  }
+
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(canonicalJson(content))
+  );
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Append an event to its user's chain
+ *
+ * Takes the event's content (without chain fields) and returns the chain
+ * fields to store with it. The chain head document serializes concurrent
+ * ingestion for a user, so positions are never reused.
+ */
+export async function linkEvent(
+  ctx: MutationCtx,
+  userId: string,
+  event: Record<string, unknown> & { eventId: string }
+): Promise<ChainLink> {
+  const head = await ctx.db
+    .query("eventChains")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+
+  const chainIndex = head?.length ?? 0;
+  const prevHash = head?.headHash ?? "";
+  const contentHash = await hashEventContent({ ...event, chainIndex, prevHash });
+
+  const now = Date.now();
+  if (head) {
+    await ctx.db.patch(head._id, {
+      length: chainIndex + 1,
+      headHash: contentHash,
+      headEventId: event.eventId,
+      updatedAt: now,
+    });
+  } else {
+    await ctx.db.insert("eventChains", {
+      userId,
+      length: 1,
+      headHash: contentHash,
+      headEventId: event.eventId,
+      updatedAt: now,
+    });
+  }
+
+  return { chainIndex, prevHash, contentHash };
+}
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Start verifying a user's chain
+ *
+ * Verifies the chain as it is now; events appended while verification
+ * runs are left for the next one.
+ */
+export const startChainVerification = internalMutation({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const running = await ctx.db
+      .query("chainVerifications")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .first();
+
+    if (running?.status === "running") {
+      return {
+        success: false as const,
+        code: "VERIFICATION_IN_PROGRESS",
+        error: "A verification is already running for this user",
+        verificationId: running._id,
+      };
+    }
+
+    const head = await ctx.db
+      .query("eventChains")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+
+    const now = Date.now();
+    const verificationId = await ctx.db.insert("chainVerifications", {
+      userId: args.userId,
+      status: "running",
+      nextIndex: 0,
+      expectedPrevHash: "",
+      chainLength: head?.length ?? 0,
+      chainHeadHash: head?.headHash ?? "",
+      startedAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.chain.verifyChainStep, { verificationId });
+
+    return { success: true as const, verificationId };
+  },
+});
+
+/**
+ * Verify the next page of a chain, rescheduling until done
+ */
+export const verifyChainStep = internalMutation({
+  args: {
+    verificationId: v.id("chainVerifications"),
+  },
+  handler: async (ctx, args) => {
+    const verification = await ctx.db.get(args.verificationId);
+    if (!verification || verification.status !== "running") {
+      return;
+    }
+
+    const { userId, chainLength } = verification;
+    let index = verification.nextIndex;
+    let expectedPrevHash = verification.expectedPrevHash;
+
+    const [stored, archived] = await Promise.all([
+      ctx.db
+        .query("events")
+        .withIndex("by_user_chain", (q) =>
+          q.eq("userId", userId).gte("chainIndex", index).lt("chainIndex", chainLength)
+        )
+        .take(VERIFY_PAGE_SIZE),
+      ctx.db
+        .query("archivedEvents")
+        .withIndex("by_user_chain", (q) =>
+          q.eq("userId", userId).gte("chainIndex", index).lt("chainIndex", chainLength)
+        )
+        .take(VERIFY_PAGE_SIZE),
+    ]);
+
+    // Compaction moves events to the archive; they still belong to the chain
+    const events = [...stored, ...archived.map((a) => a.event as Doc<"events">)]
+      .sort((a, b) => (a.chainIndex ?? 0) - (b.chainIndex ?? 0))
+      .slice(0, VERIFY_PAGE_SIZE);
+
+    let brokenLink: BrokenLink | null = null;
+
+    for (const event of events) {
+      brokenLink = await checkLink(event, index, expectedPrevHash);
+      if (brokenLink) {
+        break;
+      }
+
+      expectedPrevHash = event.contentHash ?? "";
+      index++;
+    }
+
+    // A short page before the end of the chain means events were removed
+    if (!brokenLink && events.length < VERIFY_PAGE_SIZE && index < chainLength) {
+      brokenLink = { chainIndex: index, problem: "EVENT_MISSING" };
+    }
+
+    // The last event must be the head recorded when verification started
+    if (!brokenLink && index === chainLength && expectedPrevHash !== verification.chainHeadHash) {
+      brokenLink = {
+        chainIndex: chainLength - 1,
+        problem: "HEAD_MISMATCH",
+        expectedHash: verification.chainHeadHash,
+        actualHash: expectedPrevHash,
+      };
+    }
+
+    const now = Date.now();
+
+    if (brokenLink) {
+      console.warn(
+        `Event chain for user ${userId} broken at ${brokenLink.chainIndex}: ${brokenLink.problem}`
+      );
+      await ctx.db.patch(verification._id, {
+        status: "broken",
+        nextIndex: index,
+        expectedPrevHash,
+        brokenLink,
+        updatedAt: now,
+        completedAt: now,
+      });
+      return;
+    }
+
+    if (index === chainLength) {
+      await ctx.db.patch(verification._id, {
+        status: "valid",
+        nextIndex: index,
+        expectedPrevHash,
+        updatedAt: now,
+        completedAt: now,
+      });
+      return;
+    }
+
+    await ctx.db.patch(verification._id, { nextIndex: index, expectedPrevHash, updatedAt: now });
+    await ctx.scheduler.runAfter(0, internal.chain.verifyChainStep, {
+      verificationId: verification._id,
+    });
+  },
+});
+
+/**
+ * Verify every user's chain
+ *
+ * Walks the chain heads a page at a time, starting a verification per user,
+ * then reschedules itself with the next page. Run periodically from crons.ts.
+ */
+export const verifyAllChains = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("eventChains")
+      .paginate({ numItems: USERS_PER_SWEEP, cursor: args.cursor ?? null });
+
+    for (const head of page.page) {
+      await ctx.scheduler.runAfter(0, internal.chain.startChainVerification, {
+        userId: head.userId,
+      });
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.chain.verifyAllChains, {
+        cursor: page.continueCursor,
+      });
+    }
+
+    return { scheduled: page.page.length, hasMore: !page.isDone };
+  },
+});
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * Get the latest chain verification for a user, with the current chain head
+ */
+export const getChainStatus = internalQuery({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const head = await ctx.db
+      .query("eventChains")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+
+    const verification = await ctx.db
+      .query("chainVerifications")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .first();
+
+    return {
+      chainLength: head?.length ?? 0,
+      headHash: head?.headHash ?? null,
+      headEventId: head?.headEventId ?? null,
+      verification: verification
+        ? {
+            verificationId: verification._id,
+            status: verification.status,
+            chainLength: verification.chainLength,
+            checked: verification.nextIndex,
+            brokenLink: verification.brokenLink ?? null,
+            startedAt: verification.startedAt,
+            completedAt: verification.completedAt ?? null,
+          }
+        : null,
+    };
+  },
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Check one event against the position and hash the chain expects
+ */
+async function checkLink(
+  event: Doc<"events">,
+  expectedIndex: number,
+  expectedPrevHash: string
+): Promise<BrokenLink | null> {
+  // A gap in positions means events were deleted; a repeat, that one was inserted
+  if (event.chainIndex !== expectedIndex) {
+    return (event.chainIndex ?? 0) > expectedIndex
+      ? { chainIndex: expectedIndex, problem: "EVENT_MISSING" }
+      : { chainIndex: expectedIndex, eventId: event.eventId, problem: "LINK_MISMATCH" };
+  }
+
+  if (event.prevHash !== expectedPrevHash) {
+    return {
+      chainIndex: expectedIndex,
+      eventId: event.eventId,
+      problem: "LINK_MISMATCH",
+      expectedHash: expectedPrevHash,
+      actualHash: event.prevHash,
+    };
+  }
+
+  const actualHash = await hashEventContent(event);
+  if (actualHash !== event.contentHash) {
+    return {
+      chainIndex: expectedIndex,
+      eventId: event.eventId,
+      problem: "CONTENT_MODIFIED",
+      expectedHash: event.contentHash,
+      actualHash,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * JSON with object keys in sorted order at every level
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(",")}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
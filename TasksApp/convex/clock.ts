@@ -0,0 +1,215 @@
+import { MutationCtx } from "./_generated/server";
+
+/**
+ * Hybrid Logical Clock Module
+ *
+ * Client timestamps can't be trusted for ordering: a device whose clock runs
+ * ahead wins every last-writer-wins merge, one that runs behind loses them.
+ * At ingestion each event is stamped with a hybrid logical clock (HLC):
+ *
+ * - wall time: the client timestamp corrected by the device's measured clock
+ *   offset (server time minus the device's `sentAt`), clamped to server time
+ *   if still in the future
+ * - counter: breaks ties between events of a device with the same wall time
+ * - device ID: breaks ties between devices deterministically
+ *
+ * The corrected time is also stored as the event timestamp. A late upload
+ * (e.g. a replayed background upload) keeps its own time, so it never
+ * overtakes newer edits from the same device.
+ *
+ * Skew can only be corrected when the request carries `sentAt`; without it
+ * client timestamps are used as sent, and ingestion reports that. Since a
+ * slow clock can't be told apart from an old edit then, such timestamps may
+ * be at most a week behind server time.
+ *
+ * Events too far off server time are rejected. The encoded HLC sorts
+ * lexicographically in clock order; projections merge fields by it.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HybridTimestamp {
+  wallTime: number;
+  counter: number;
+  deviceId: string;
+}
+
+export type ClockStampResult =
+  | { success: true; timestamp: number; hlc: string; clamped: boolean }
+  | { success: false; message: string };
+
+export type ClockOffsetResult =
+  // measured is false when the request had no sentAt (offset taken as zero)
+  | { success: true; offset: number; measured: boolean }
+  | { success: false; message: string };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Largest clock error accepted from a device (24 hours)
+const MAX_CLOCK_SKEW_MS = 24 * 60 * 60 * 1000;
+
+// Without a measured offset, timestamps further behind server time are
+// rejected (7 days)
+const MAX_UNMEASURED_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Future timestamps beyond this are clamped to server time
+const MAX_FUTURE_DRIFT_MS = 60 * 1000;
+
+// Measured offsets below this are network latency, not skew
+const CLOCK_SKEW_TOLERANCE_MS = 5 * 1000;
+
+// Digits used to encode each HLC component (keeps encodings sortable)
+const WALL_TIME_DIGITS = 15;
+const COUNTER_DIGITS = 6;
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Encode an HLC as a string that sorts in clock order
+ */
+export function encodeHlc(hlc: HybridTimestamp): string {
+  const wallTime = hlc.wallTime.toString().padStart(WALL_TIME_DIGITS, "0");
+  const counter = hlc.counter.toString().padStart(COUNTER_DIGITS, "0");
+  return `${wallTime}-${counter}-${hlc.deviceId}`;
+}
+
+/**
+ * HLC for a write made before events carried one
+ *
+ * Sorts before any real HLC with the same wall time.
+ */
+export function legacyHlc(timestamp: number): string {
+  return encodeHlc({ wallTime: timestamp, counter: 0, deviceId: "" });
+}
+
+// ============================================================================
+// Stamping
+// ============================================================================
+
+/**
+ * Measure a device's clock offset from the time it sent a request
+ *
+ * Without `sentAt` the offset can't be measured and is taken as zero.
+ */
+export function measureClockOffset(sentAt: number | undefined, serverNow: number): ClockOffsetResult {
+  if (sentAt === undefined) {
+    return { success: true, offset: 0, measured: false };
+  }
+
+  const offset = serverNow - sentAt;
+
+  if (Math.abs(offset) > MAX_CLOCK_SKEW_MS) {
+    return {
+      success: false,
+      message: `Device clock is off by ${Math.round(offset / 1000)}s; fix the device clock and retry`,
+    };
+  }
+
+  return {
+    success: true,
+    offset: Math.abs(offset) < CLOCK_SKEW_TOLERANCE_MS ? 0 : offset,
+    measured: true,
+  };
+}
+
+/**
+ * Check that an event's skew-corrected timestamp is acceptable
+ *
+ * Pure check, so a batch can be validated before anything is written.
+ */
+export function checkEventClock(
+  clientTimestamp: number,
+  offset: number,
+  measured: boolean,
+  serverNow: number
+): { success: true } | { success: false; message: string } {
+  const corrected = clientTimestamp + offset;
+
+  if (corrected > serverNow + MAX_CLOCK_SKEW_MS) {
+    return {
+      success: false,
+      message: `Event timestamp is ${Math.round((corrected - serverNow) / 1000)}s in the future`,
+    };
+  }
+
+  if (!measured && corrected < serverNow - MAX_UNMEASURED_AGE_MS) {
+    return {
+      success: false,
+      message: `Event timestamp is ${Math.round((serverNow - corrected) / 1000)}s in the past; send sentAt with the batch so the device clock can be checked`,
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Stamp an event with an HLC for its device
+ *
+ * Returns the corrected wall time (stored as the event timestamp, which
+ * orders projection) and the encoded HLC (which orders field merges). An
+ * event older than the device's latest wall time keeps its own time instead
+ * of being moved ahead. The counter increases for every event that doesn't
+ * advance the wall time, late or not, so no two events of a device share an
+ * HLC.
+ */
+export async function stampEventClock(
+  ctx: MutationCtx,
+  args: {
+    userId: string;
+    deviceId: string;
+    clientTimestamp: number;
+    offset: number;
+    measured: boolean;
+    serverNow: number;
+  }
+): Promise<ClockStampResult> {
+  const check = checkEventClock(args.clientTimestamp, args.offset, args.measured, args.serverNow);
+  if (!check.success) {
+    return check;
+  }
+
+  const corrected = args.clientTimestamp + args.offset;
+
+  const clamped = corrected > args.serverNow + MAX_FUTURE_DRIFT_MS;
+  const physicalTime = clamped ? args.serverNow : corrected;
+
+  const state = await ctx.db
+    .query("deviceClocks")
+    .withIndex("by_user_device", (q) =>
+      q.eq("userId", args.userId).eq("deviceId", args.deviceId)
+    )
+    .first();
+
+  const wallTime = physicalTime;
+  const counter = state && physicalTime <= state.wallTime ? state.counter + 1 : 0;
+
+  if (state) {
+    // A late event bumps the counter but doesn't move the device's clock back
+    await ctx.db.patch(state._id, {
+      wallTime: Math.max(state.wallTime, physicalTime),
+      counter,
+      updatedAt: args.serverNow,
+    });
+  } else {
+    await ctx.db.insert("deviceClocks", {
+      userId: args.userId,
+      deviceId: args.deviceId,
+      wallTime,
+      counter,
+      updatedAt: args.serverNow,
+    });
+  }
+
+  return {
+    success: true,
+    timestamp: wallTime,
+    hlc: encodeHlc({ wallTime, counter, deviceId: args.deviceId }),
+    clamped,
+  };
+}
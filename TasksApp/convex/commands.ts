@@ -0,0 +1,189 @@
+import { EventInput, generateEventId } from "./ingestion";
+import { validateEvent, ValidationIssue } from "./eventRegistry";
+import { MAX_BATCH_EVENTS } from "./rateLimits";
+
+/**
+ * REST Write Commands
+ *
+ * The REST write endpoints (POST /api/tasks, PATCH /api/lists/:listId, ...)
+ * don't touch projections. Each request body is turned into events here,
+ * with server-generated UUID v7 event IDs, and the endpoint ingests them
+ * through insertEventBatch like any client upload. The event log stays the
+ * only source of truth.
+ *
+ * Bodies are checked against the same payload validators ingestion uses,
+ * so a bad field is reported to the caller as a 400 with its path instead
+ * of as a rejected event.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CommandResult =
+  | { success: true; events: EventInput[] }
+  | { success: false; errors: ValidationIssue[] };
+
+export interface CommandFields {
+  // Body fields the command accepts
+  fields: readonly string[];
+
+  // Body fields the command requires
+  required?: readonly string[];
+
+  // Payload values used when the body leaves them out
+  defaults?: Record<string, unknown>;
+
+  // Reject a body that sets no fields (updates)
+  nonEmpty?: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Task fields set through create and update; completion, moves and
+// attachments have their own commands
+export const TASK_FIELDS = [
+  "title",
+  "notes",
+  "dueDate",
+  "dueTime",
+  "priority",
+  "tags",
+  "flag",
+  "redBeaconEnabled",
+  "mirrorToCalendar",
+  "recurrence",
+  "subtasks",
+  "location",
+  "url",
+  "sortOrder",
+] as const;
+
+export const LIST_FIELDS = ["name", "color", "icon", "sortOrder"] as const;
+
+export const TAG_FIELDS = ["name", "color"] as const;
+
+// ============================================================================
+// Command Builders
+// ============================================================================
+
+/**
+ * Generate the ID of a list, task or tag created through the REST API
+ */
+export function newEntityId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Build a server-generated event
+ */
+export function buildEvent(
+  eventType: string,
+  payload: Record<string, unknown>,
+  timestamp: number = Date.now()
+): EventInput {
+  return {
+    eventId: generateEventId(timestamp),
+    timestamp,
+    eventType,
+    schemaVersion: 1,
+    payload,
+  };
+}
+
+/**
+ * Build the event for a single-entity write from a request body
+ *
+ * `target` holds the entity's ID field (e.g. { taskId }); `body` may only
+ * contain the command's fields.
+ */
+export function buildCommand(
+  eventType: string,
+  target: Record<string, string>,
+  body: unknown,
+  command: CommandFields
+): CommandResult {
+  const input = body ?? {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { success: false, errors: [{ path: "", message: "Expected a JSON object" }] };
+  }
+
+  const errors: ValidationIssue[] = [];
+  const values = input as Record<string, unknown>;
+
+  for (const key of Object.keys(values)) {
+    if (!command.fields.includes(key)) {
+      errors.push({ path: key, message: "Unknown field" });
+    }
+  }
+
+  for (const key of command.required ?? []) {
+    if (values[key] === undefined) {
+      errors.push({ path: key, message: "Required field is missing" });
+    }
+  }
+
+  if (command.nonEmpty && Object.keys(values).length === 0) {
+    errors.push({ path: "", message: "Set at least one field" });
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return checkEvents([
+    buildEvent(eventType, { ...command.defaults, ...values, ...target }),
+  ]);
+}
+
+/**
+ * Build the events that put lists or tasks in the given order
+ *
+ * One reordered event per entity, sortOrder being its position, with
+ * consecutive timestamps so they project in order.
+ */
+export function buildReorderCommand(
+  entity: "list" | "task",
+  ids: unknown
+): CommandResult {
+  const path = `${entity}Ids`;
+
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== "string")) {
+    return { success: false, errors: [{ path, message: "Expected a non-empty array of strings" }] };
+  }
+
+  if (ids.length > MAX_BATCH_EVENTS) {
+    return { success: false, errors: [{ path, message: `At most ${MAX_BATCH_EVENTS} IDs` }] };
+  }
+
+  if (new Set(ids).size !== ids.length) {
+    return { success: false, errors: [{ path, message: "IDs must be unique" }] };
+  }
+
+  const now = Date.now();
+  return checkEvents(
+    (ids as string[]).map((id, i) =>
+      buildEvent(`tasks.${entity}.reordered`, { [`${entity}Id`]: id, sortOrder: i }, now + i)
+    )
+  );
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Check events against the payload registry, reporting body field paths
+ */
+export function checkEvents(events: EventInput[]): CommandResult {
+  const errors = events.flatMap((event) =>
+    validateEvent(event.eventType, event.payload).map((issue) => ({
+      ...issue,
+      path: issue.path.replace(/^payload\.?/, ""),
+    }))
+  );
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, events };
+}
@@ -0,0 +1,724 @@
+import { internalMutation, internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { fetchEventsAfter, projectEvent, syncTaskTags, TaskEvent } from "./projections";
+import { getActiveRebuild } from "./rebuild";
+
+/**
+ * Event Log Compaction Module
+ *
+ * The event log grows forever and a fresh rebuild would replay all of it.
+ * Compaction bounds both:
+ *
+ * 1. Snapshot: the user's projection state as of a cutoff (now minus the
+ *    retention window) is built in shadow rows, starting from the previous
+ *    snapshot and replaying only the events after it, then captured into
+ *    snapshotRows. The live projections are never touched.
+ * 2. Archive: events of lists, tasks and tags that were deleted before the
+ *    cutoff are fully superseded by the snapshot; they move to
+ *    archivedEvents, where they stay available for audit, hash chain
+ *    verification and task history (an archived task may still be
+ *    restored later).
+ *
+ * Fresh rebuilds restore the latest snapshot and replay from its cutoff
+ * (see rebuild.ts). Events that arrive late with a timestamp before a
+ * snapshot's cutoff are replayed on top of it when it is restored.
+ *
+ * Like rebuilds, compaction runs as a chain of scheduled mutations, one page
+ * per run. A user has at most one rebuild or compaction at a time.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Events older than this are compacted (90 days)
+const DEFAULT_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Events replayed, or rows restored or captured, per run
+const COMPACTION_PAGE_SIZE = 200;
+
+// Deleted entities whose events are archived per run
+const ARCHIVE_ENTITIES_PER_PAGE = 20;
+
+// Events archived per entity per run; the rest wait for the next compaction
+const ARCHIVE_EVENTS_PER_ENTITY = 200;
+
+// Users scheduled for compaction per sweep run
+const USERS_PER_SWEEP = 50;
+
+// Tables captured in a snapshot, in restore order
+export const SNAPSHOT_TABLES = ["taskListsProjection", "tasksProjection", "tagsProjection"] as const;
+
+// Job phases during which compaction is running
+const ACTIVE_STATUSES: Doc<"compactionJobs">["status"][] = [
+  "restoring",
+  "replaying",
+  "capturing",
+  "archiving",
+  "cleaning",
+];
+
+type SnapshotTable = (typeof SNAPSHOT_TABLES)[number];
+
+// Snapshot field counting each table's rows
+const SNAPSHOT_COUNT_FIELDS = {
+  taskListsProjection: "listCount",
+  tasksProjection: "taskCount",
+  tagsProjection: "tagCount",
+} as const;
+
+type JobUpdate = Partial<Doc<"compactionJobs">>;
+
+// ============================================================================
+// Job Control
+// ============================================================================
+
+/**
+ * Start compacting a user's event log
+ */
+export const startCompaction = internalMutation({
+  args: {
+    userId: v.string(),
+    retentionMs: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    if (await getActiveRebuild(ctx, args.userId)) {
+      return {
+        success: false as const,
+        code: "REBUILD_IN_PROGRESS",
+        error: "A rebuild is running for this user",
+      };
+    }
+
+    const active = await getActiveCompaction(ctx, args.userId);
+    if (active) {
+      return {
+        success: false as const,
+        code: "COMPACTION_IN_PROGRESS",
+        error: "A compaction is already running for this user",
+        jobId: active._id,
+      };
+    }
+
+    const now = Date.now();
+    const cutoffTimestamp = now - (args.retentionMs ?? DEFAULT_RETENTION_MS);
+    const previous = await getLatestSnapshot(ctx, args.userId);
+
+    if (previous && (previous.coveredThrough ?? previous.cutoffTimestamp) >= cutoffTimestamp) {
+      return {
+        success: false as const,
+        code: "UP_TO_DATE",
+        error: "The latest snapshot already covers the retention cutoff",
+      };
+    }
+
+    // Nothing to fold into a new snapshot (late events are replayed on restore)
+    const [next] = await fetchEventsAfter(
+      ctx,
+      args.userId,
+      {
+        lastTimestamp: previous?.cutoffTimestamp ?? 0,
+        lastEventId: previous?.cutoffEventId ?? "",
+      },
+      1
+    );
+    if (!next || next.timestamp >= cutoffTimestamp) {
+      return {
+        success: false as const,
+        code: "UP_TO_DATE",
+        error: "No events before the retention cutoff since the latest snapshot",
+      };
+    }
+
+    const snapshotId = await ctx.db.insert("projectionSnapshots", {
+      userId: args.userId,
+      status: "building",
+      cutoffTimestamp: previous?.cutoffTimestamp ?? 0,
+      cutoffEventId: previous?.cutoffEventId ?? "",
+      capturedAt: now,
+      listCount: 0,
+      taskCount: 0,
+      tagCount: 0,
+      createdAt: now,
+    });
+
+    const jobId = await ctx.db.insert("compactionJobs", {
+      userId: args.userId,
+      status: previous ? "restoring" : "replaying",
+      snapshotId,
+      previousSnapshotId: previous?._id,
+      cutoffTimestamp,
+      // "" sorts before any eventId, so the first event is included
+      cursorTimestamp: previous?.cutoffTimestamp ?? 0,
+      cursorEventId: previous?.cutoffEventId ?? "",
+      phaseTable: 0,
+      phaseCursor: null,
+      restoredCount: 0,
+      replayedCount: 0,
+      capturedCount: 0,
+      archivedCount: 0,
+      errorCount: 0,
+      startedAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.compaction.compactionStep, { jobId });
+
+    return { success: true as const, jobId };
+  },
+});
+
+/**
+ * Resume a job whose step chain stopped (e.g. a run exceeded its limits)
+ *
+ * Starts a new step chain; a chain that is in fact still running sees the
+ * bumped stepToken and stops, so two chains never walk the job at once.
+ */
+export const resumeCompaction = internalMutation({
+  args: {
+    jobId: v.id("compactionJobs"),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) {
+      return { success: false as const, code: "NOT_FOUND", error: "Compaction not found" };
+    }
+
+    if (!ACTIVE_STATUSES.includes(job.status)) {
+      return {
+        success: false as const,
+        code: "NOT_RESUMABLE",
+        error: `Compaction is already ${job.status}`,
+      };
+    }
+
+    const stepToken = (job.stepToken ?? 0) + 1;
+    await ctx.db.patch(job._id, { stepToken, updatedAt: Date.now() });
+    await ctx.scheduler.runAfter(0, internal.compaction.compactionStep, {
+      jobId: job._id,
+      stepToken,
+    });
+
+    return { success: true as const };
+  },
+});
+
+/**
+ * Compact every user's event log
+ *
+ * Walks the chain heads (one per user with events) a page at a time,
+ * starting a compaction per user, then reschedules itself with the next
+ * page. Run periodically from crons.ts.
+ */
+export const compactAllUsers = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("eventChains")
+      .paginate({ numItems: USERS_PER_SWEEP, cursor: args.cursor ?? null });
+
+    for (const head of page.page) {
+      await ctx.scheduler.runAfter(0, internal.compaction.startCompaction, {
+        userId: head.userId,
+      });
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.compaction.compactAllUsers, {
+        cursor: page.continueCursor,
+      });
+    }
+
+    return { scheduled: page.page.length, hasMore: !page.isDone };
+  },
+});
+
+// ============================================================================
+// Step Runner
+// ============================================================================
+
+/**
+ * Run one page of a compaction job and schedule the next
+ *
+ * Steps from a superseded chain (see resumeCompaction) exit without running.
+ */
+export const compactionStep = internalMutation({
+  args: {
+    jobId: v.id("compactionJobs"),
+    stepToken: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || (args.stepToken ?? 0) !== (job.stepToken ?? 0)) {
+      return { done: true };
+    }
+
+    let next: JobUpdate | null;
+
+    switch (job.status) {
+      case "restoring":
+        next = await restorePreviousPage(ctx, job);
+        break;
+
+      case "replaying":
+        next = await replayPage(ctx, job);
+        break;
+
+      case "capturing":
+        next = await capturePage(ctx, job);
+        break;
+
+      case "archiving":
+        next = await archivePage(ctx, job);
+        break;
+
+      case "cleaning":
+        next = await cleanPage(ctx, job);
+        break;
+
+      default:
+        return { done: true };
+    }
+
+    if (!next) {
+      return { done: true };
+    }
+
+    await ctx.db.patch(job._id, { ...next, updatedAt: Date.now() });
+    await ctx.scheduler.runAfter(0, internal.compaction.compactionStep, {
+      jobId: job._id,
+      stepToken: job.stepToken,
+    });
+
+    return { done: false };
+  },
+});
+
+/**
+ * Restore the next page of the previous snapshot into shadow rows
+ */
+async function restorePreviousPage(
+  ctx: MutationCtx,
+  job: Doc<"compactionJobs">
+): Promise<JobUpdate> {
+  const previous = job.previousSnapshotId ? await ctx.db.get(job.previousSnapshotId) : null;
+  if (!previous) {
+    throw new Error(`Snapshot ${job.previousSnapshotId} of compaction ${job._id} is gone`);
+  }
+
+  const shadowUserId = getShadowUserId(job);
+  const page = await restoreSnapshotPage(
+    ctx,
+    previous,
+    shadowUserId,
+    { step: job.phaseTable ?? 0, cursor: job.phaseCursor ?? null },
+    (event) => toShadowEvent(event, shadowUserId, job.startedAt)
+  );
+
+  const restoredCount = job.restoredCount + page.restored;
+
+  if (page.next) {
+    return { restoredCount, phaseTable: page.next.step, phaseCursor: page.next.cursor };
+  }
+
+  return { restoredCount, status: "replaying", phaseTable: 0, phaseCursor: null };
+}
+
+/**
+ * Replay the next page of events before the cutoff into shadow rows
+ */
+async function replayPage(ctx: MutationCtx, job: Doc<"compactionJobs">): Promise<JobUpdate> {
+  const events = await fetchEventsAfter(
+    ctx,
+    job.userId,
+    { lastTimestamp: job.cursorTimestamp, lastEventId: job.cursorEventId },
+    COMPACTION_PAGE_SIZE + 1
+  );
+
+  const shadowUserId = getShadowUserId(job);
+  const beforeCutoff = events.filter((event) => event.timestamp < job.cutoffTimestamp);
+  let { cursorTimestamp, cursorEventId, replayedCount, errorCount, lastError } = job;
+
+  for (const event of beforeCutoff.slice(0, COMPACTION_PAGE_SIZE)) {
+    try {
+      await projectEvent(ctx, toShadowEvent(event, shadowUserId, job.startedAt));
+      replayedCount++;
+    } catch (error) {
+      console.error(`Error compacting event ${event.eventId}:`, error);
+      lastError = error instanceof Error ? error.message : "Unknown error";
+      errorCount++;
+    }
+
+    cursorTimestamp = event.timestamp;
+    cursorEventId = event.eventId;
+  }
+
+  const progress = { cursorTimestamp, cursorEventId, replayedCount, errorCount, lastError };
+
+  if (beforeCutoff.length > COMPACTION_PAGE_SIZE) {
+    return progress;
+  }
+
+  return { ...progress, status: "capturing", phaseTable: 0, phaseCursor: null };
+}
+
+/**
+ * Move the next page of shadow rows into the snapshot
+ *
+ * Once every table is captured the snapshot becomes the one rebuilds start
+ * from.
+ */
+async function capturePage(ctx: MutationCtx, job: Doc<"compactionJobs">): Promise<JobUpdate> {
+  const tableIndex = job.phaseTable ?? 0;
+  const table = SNAPSHOT_TABLES[tableIndex];
+
+  const rows = await ctx.db
+    .query(table)
+    .withIndex("by_user", (q) => q.eq("userId", getShadowUserId(job)))
+    .take(COMPACTION_PAGE_SIZE);
+
+  for (const { _id, _creationTime, syncVersion, ...row } of rows) {
+    await ctx.db.insert("snapshotRows", {
+      snapshotId: job.snapshotId,
+      table,
+      row: { ...row, userId: job.userId },
+    });
+    if ("taskId" in row) {
+      await syncTaskTags(ctx, row.userId, row.taskId, []);
+    }
+    await ctx.db.delete(_id);
+  }
+
+  const capturedCount = job.capturedCount + rows.length;
+
+  if (rows.length > 0) {
+    const snapshot = await ctx.db.get(job.snapshotId);
+    const countField = SNAPSHOT_COUNT_FIELDS[table];
+    await ctx.db.patch(job.snapshotId, { [countField]: (snapshot?.[countField] ?? 0) + rows.length });
+  }
+
+  // Captured rows are deleted, so a short page means the table is drained
+  if (rows.length === COMPACTION_PAGE_SIZE) {
+    return { capturedCount };
+  }
+
+  if (tableIndex + 1 < SNAPSHOT_TABLES.length) {
+    return { capturedCount, phaseTable: tableIndex + 1 };
+  }
+
+  await deleteShadowCounter(ctx, job);
+  await ctx.db.patch(job.snapshotId, {
+    status: "ready",
+    cutoffTimestamp: job.cursorTimestamp,
+    cutoffEventId: job.cursorEventId,
+    coveredThrough: job.cutoffTimestamp,
+    completedAt: Date.now(),
+  });
+
+  return { capturedCount, status: "archiving", phaseTable: 0, phaseCursor: null };
+}
+
+/**
+ * Archive the events of the next page of entities deleted before the cutoff
+ *
+ * Only events the snapshot is known to reflect are archived: at or before
+ * its cutoff, and stored before the job started.
+ */
+async function archivePage(ctx: MutationCtx, job: Doc<"compactionJobs">): Promise<JobUpdate> {
+  const snapshot = await ctx.db.get(job.snapshotId);
+  if (!snapshot) {
+    throw new Error(`Snapshot ${job.snapshotId} of compaction ${job._id} is gone`);
+  }
+
+  const tableIndex = job.phaseTable ?? 0;
+  const table = SNAPSHOT_TABLES[tableIndex];
+
+  const page = await ctx.db
+    .query("snapshotRows")
+    .withIndex("by_snapshot_table", (q) => q.eq("snapshotId", job.snapshotId).eq("table", table))
+    .paginate({ numItems: ARCHIVE_ENTITIES_PER_PAGE, cursor: job.phaseCursor ?? null });
+
+  const now = Date.now();
+  let archived = 0;
+
+  for (const { row } of page.page) {
+    const deletedAt: number | undefined = row.tombstoned ? row.tombstonedAt ?? row.updatedAt : undefined;
+    if (deletedAt === undefined || deletedAt >= job.cutoffTimestamp) {
+      continue;
+    }
+
+    const entityId: string = row.listId ?? row.taskId ?? row.tagId;
+    const events = await ctx.db
+      .query("events")
+      .withIndex("by_user_entity", (q) =>
+        q.eq("userId", job.userId).eq("entityId", entityId).lte("timestamp", snapshot.cutoffTimestamp)
+      )
+      .take(ARCHIVE_EVENTS_PER_ENTITY);
+
+    for (const { _id, _creationTime, ...event } of events) {
+      const covered =
+        event.serverTimestamp < job.startedAt &&
+        (event.timestamp < snapshot.cutoffTimestamp || event.eventId <= snapshot.cutoffEventId);
+      if (!covered) {
+        continue;
+      }
+
+      await ctx.db.insert("archivedEvents", {
+        userId: event.userId,
+        appId: event.appId,
+        eventId: event.eventId,
+        timestamp: event.timestamp,
+        chainIndex: event.chainIndex,
+        entityId: event.entityId,
+        event,
+        compactionId: job._id,
+        archivedAt: now,
+      });
+      await ctx.db.delete(_id);
+      archived++;
+    }
+  }
+
+  const archivedCount = job.archivedCount + archived;
+
+  if (!page.isDone) {
+    return { archivedCount, phaseCursor: page.continueCursor };
+  }
+
+  if (tableIndex + 1 < SNAPSHOT_TABLES.length) {
+    return { archivedCount, phaseTable: tableIndex + 1, phaseCursor: null };
+  }
+
+  return { archivedCount, status: "cleaning", phaseTable: 0, phaseCursor: null };
+}
+
+/**
+ * Delete the next page of the superseded snapshot's rows
+ */
+async function cleanPage(
+  ctx: MutationCtx,
+  job: Doc<"compactionJobs">
+): Promise<JobUpdate | null> {
+  const previousSnapshotId = job.previousSnapshotId;
+
+  if (previousSnapshotId) {
+    const rows = await ctx.db
+      .query("snapshotRows")
+      .withIndex("by_snapshot_table", (q) => q.eq("snapshotId", previousSnapshotId))
+      .take(COMPACTION_PAGE_SIZE);
+
+    for (const row of rows) {
+      await ctx.db.delete(row._id);
+    }
+
+    if (rows.length === COMPACTION_PAGE_SIZE) {
+      return {};
+    }
+
+    if (await ctx.db.get(previousSnapshotId)) {
+      await ctx.db.delete(previousSnapshotId);
+    }
+  }
+
+  const now = Date.now();
+  await ctx.db.patch(job._id, { status: "completed", updatedAt: now, completedAt: now });
+
+  return null;
+}
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * Get the most recent compaction job and the latest snapshot for a user
+ */
+export const getCompactionStatus = internalQuery({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db
+      .query("compactionJobs")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .first();
+
+    const snapshot = await getLatestSnapshot(ctx, args.userId);
+
+    return {
+      job: job
+        ? {
+            jobId: job._id,
+            status: job.status,
+            active: ACTIVE_STATUSES.includes(job.status),
+            cutoffTimestamp: job.cutoffTimestamp,
+            restoredCount: job.restoredCount,
+            replayedCount: job.replayedCount,
+            capturedCount: job.capturedCount,
+            archivedCount: job.archivedCount,
+            errorCount: job.errorCount,
+            lastError: job.lastError,
+            startedAt: job.startedAt,
+            updatedAt: job.updatedAt,
+            completedAt: job.completedAt,
+          }
+        : null,
+      snapshot: snapshot
+        ? {
+            snapshotId: snapshot._id,
+            cutoffTimestamp: snapshot.cutoffTimestamp,
+            cutoffEventId: snapshot.cutoffEventId,
+            coveredThrough: snapshot.coveredThrough,
+            listCount: snapshot.listCount,
+            taskCount: snapshot.taskCount,
+            tagCount: snapshot.tagCount,
+            completedAt: snapshot.completedAt,
+          }
+        : null,
+    };
+  },
+});
+
+// ============================================================================
+// Snapshot Helpers
+// ============================================================================
+
+/**
+ * Get the snapshot rebuilds should start from, if any
+ */
+export async function getLatestSnapshot(
+  ctx: QueryCtx,
+  userId: string
+): Promise<Doc<"projectionSnapshots"> | null> {
+  return ctx.db
+    .query("projectionSnapshots")
+    .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "ready"))
+    .order("desc")
+    .first();
+}
+
+/**
+ * Get the user's active compaction job, if any
+ */
+export async function getActiveCompaction(
+  ctx: QueryCtx,
+  userId: string
+): Promise<Doc<"compactionJobs"> | null> {
+  const job = await ctx.db
+    .query("compactionJobs")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .order("desc")
+    .first();
+
+  return job && ACTIVE_STATUSES.includes(job.status) ? job : null;
+}
+
+/**
+ * Restore the next page of a snapshot as rows owned by `targetUserId`
+ *
+ * Steps 0-2 copy the snapshot's rows table by table. The last step replays
+ * late events: stored after the snapshot was captured but sorting at or
+ * before its cutoff, so the snapshot may not reflect them. Returns the next
+ * position, or null when the restore is complete.
+ */
+export async function restoreSnapshotPage(
+  ctx: MutationCtx,
+  snapshot: Doc<"projectionSnapshots">,
+  targetUserId: string,
+  position: { step: number; cursor: string | null },
+  toTargetEvent: (event: Doc<"events">) => TaskEvent
+): Promise<{ restored: number; next: { step: number; cursor: string | null } | null }> {
+  const paginationOpts = { numItems: COMPACTION_PAGE_SIZE, cursor: position.cursor };
+  let restored = 0;
+  let page;
+
+  if (position.step < SNAPSHOT_TABLES.length) {
+    const table: SnapshotTable = SNAPSHOT_TABLES[position.step];
+    page = await ctx.db
+      .query("snapshotRows")
+      .withIndex("by_snapshot_table", (q) => q.eq("snapshotId", snapshot._id).eq("table", table))
+      .paginate(paginationOpts);
+
+    for (const { row } of page.page) {
+      await ctx.db.insert(table, { ...row, userId: targetUserId });
+      if (table === "tasksProjection") {
+        await syncTaskTags(ctx, targetUserId, row.taskId, row.tags);
+      }
+      restored++;
+    }
+  } else {
+    page = await ctx.db
+      .query("events")
+      .withIndex("by_user_server_timestamp", (q) =>
+        q.eq("userId", snapshot.userId).gte("serverTimestamp", snapshot.capturedAt)
+      )
+      .paginate(paginationOpts);
+
+    for (const event of page.page) {
+      const late =
+        event.timestamp < snapshot.cutoffTimestamp ||
+        (event.timestamp === snapshot.cutoffTimestamp && event.eventId <= snapshot.cutoffEventId);
+      if (!late) {
+        continue;
+      }
+
+      try {
+        await projectEvent(ctx, toTargetEvent(event));
+        restored++;
+      } catch (error) {
+        console.error(`Error replaying late event ${event.eventId}:`, error);
+      }
+    }
+  }
+
+  if (!page.isDone) {
+    return { restored, next: { step: position.step, cursor: page.continueCursor } };
+  }
+
+  if (position.step < SNAPSHOT_TABLES.length) {
+    return { restored, next: { step: position.step + 1, cursor: null } };
+  }
+
+  return { restored, next: null };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Shadow user ID that owns a compaction's rows until they are captured
+ */
+function getShadowUserId(job: { _id: Id<"compactionJobs">; userId: string }): string {
+  return `compaction:${job._id}:${job.userId}`;
+}
+
+/**
+ * Copy an event so that it projects into shadow rows
+ *
+ * Marked as already projected, so the replay neither records conflicts
+ * nor touches the stored event.
+ */
+function toShadowEvent(event: Doc<"events">, shadowUserId: string, startedAt: number): TaskEvent {
+  return {
+    ...(event as TaskEvent),
+    userId: shadowUserId,
+    projectedAt: event.projectedAt ?? startedAt,
+  };
+}
+
+async function deleteShadowCounter(ctx: MutationCtx, job: Doc<"compactionJobs">): Promise<void> {
+  const counter = await ctx.db
+    .query("syncCounters")
+    .withIndex("by_user", (q) => q.eq("userId", getShadowUserId(job)))
+    .first();
+
+  if (counter) {
+    await ctx.db.delete(counter._id);
+  }
+}
@@ -0,0 +1,250 @@
+import { internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { generateEventId, ingestEvents } from "./ingestion";
+
+/**
+ * Conflict Records Module
+ *
+ * The projector resolves concurrent edits automatically (field-level last
+ * writer wins), which means some edits are silently discarded. This module
+ * records those edits so users can review them and either keep the winning
+ * state or re-apply the losing edit as a new event.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ConflictType =
+  | "field_conflict"
+  | "delete_modify_conflict"
+  | "orphaned_child"
+  | "move_conflict"
+  | "reorder_conflict";
+
+export type ConflictEntityType = "task" | "list" | "tag";
+
+export interface ConflictInput {
+  userId: string;
+  entityType: ConflictEntityType;
+  entityId: string;
+  conflictType: ConflictType;
+  losingEvent: {
+    eventId: string;
+    eventType: string;
+    deviceId: string;
+    timestamp: number;
+  };
+  losingValues: Record<string, unknown>;
+  winningState: Record<string, unknown>;
+  winningEventId: string;
+}
+
+// Conflict types whose losing values can be re-applied as an update event
+const REAPPLICABLE_CONFLICTS: ConflictType[] = [
+  "field_conflict",
+  "move_conflict",
+  "reorder_conflict",
+];
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Record a conflict detected by the projector
+ *
+ * Idempotent per (losing event, entity, conflict type), so replaying events
+ * after a checkpoint rewind or a rebuild doesn't create duplicate records.
+ * The entity is part of the key because one event (a bulk operation, a list
+ * delete cascade) can lose on several entities at once.
+ */
+export async function recordConflict(ctx: MutationCtx, input: ConflictInput): Promise<void> {
+  const existing = await ctx.db
+    .query("conflicts")
+    .withIndex("by_losing_event", (q) => q.eq("losingEventId", input.losingEvent.eventId))
+    .collect();
+
+  const duplicate = existing.some(
+    (c) =>
+      c.conflictType === input.conflictType &&
+      c.entityType === input.entityType &&
+      c.entityId === input.entityId
+  );
+
+  if (duplicate) {
+    return;
+  }
+
+  await ctx.db.insert("conflicts", {
+    userId: input.userId,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    conflictType: input.conflictType,
+    losingEventId: input.losingEvent.eventId,
+    losingEventType: input.losingEvent.eventType,
+    losingDeviceId: input.losingEvent.deviceId,
+    losingTimestamp: input.losingEvent.timestamp,
+    losingValues: input.losingValues,
+    winningState: input.winningState,
+    winningEventId: input.winningEventId,
+    status: "open",
+    createdAt: Date.now(),
+  });
+}
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * List conflicts for a user, newest first
+ */
+export const listConflicts = internalQuery({
+  args: {
+    userId: v.string(),
+    status: v.optional(v.union(v.literal("open"), v.literal("resolved"))),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 50;
+    const status = args.status ?? "open";
+
+    return ctx.db
+      .query("conflicts")
+      .withIndex("by_user_status", (q) =>
+        q.eq("userId", args.userId).eq("status", status)
+      )
+      .order("desc")
+      .take(limit);
+  },
+});
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Resolve a conflict
+ *
+ * - keep_winner: accept the current state and close the conflict
+ * - reapply: emit a new update event carrying the losing values, through
+ *   the normal ingestion path, then close the conflict
+ */
+export const resolveConflict = internalMutation({
+  args: {
+    userId: v.string(),
+    deviceId: v.string(),
+    appId: v.string(),
+    conflictId: v.string(),
+    resolution: v.union(v.literal("keep_winner"), v.literal("reapply")),
+  },
+  handler: async (ctx, args) => {
+    const conflictId = ctx.db.normalizeId("conflicts", args.conflictId);
+    const conflict = conflictId ? await ctx.db.get(conflictId) : null;
+
+    if (!conflict || conflict.userId !== args.userId) {
+      return { success: false as const, code: "NOT_FOUND", error: "Conflict not found" };
+    }
+
+    if (conflict.status !== "open") {
+      return { success: false as const, code: "ALREADY_RESOLVED", error: "Conflict already resolved" };
+    }
+
+    let resolutionEventId: string | undefined;
+
+    if (args.resolution === "reapply") {
+      const event = buildReapplyEvent(conflict);
+      if (!event) {
+        return {
+          success: false as const,
+          code: "NOT_REAPPLICABLE",
+          error: `Conflicts of type ${conflict.conflictType} can't be re-applied`,
+        };
+      }
+
+      const consent = await ctx.db
+        .query("userConsent")
+        .withIndex("by_user_active", (q) =>
+          q.eq("userId", args.userId).eq("isActive", true)
+        )
+        .first();
+
+      if (!consent) {
+        return { success: false as const, code: "CONSENT_REQUIRED", error: "No active consent" };
+      }
+
+      const result = await ingestEvents(ctx, {
+        userId: args.userId,
+        deviceId: args.deviceId,
+        appId: args.appId,
+        events: [event],
+        consentSnapshotId: consent.snapshotId,
+      });
+
+      const eventResult = result.results[0];
+      if (eventResult.status === "rejected") {
+        return {
+          success: false as const,
+          code: "REAPPLY_REJECTED",
+          error: eventResult.message ?? "Re-applied event was rejected",
+          result: eventResult,
+        };
+      }
+
+      resolutionEventId = event.eventId;
+    }
+
+    await ctx.db.patch(conflict._id, {
+      status: "resolved",
+      resolution: args.resolution,
+      resolutionEventId,
+      resolvedAt: Date.now(),
+    });
+
+    return { success: true as const, resolutionEventId };
+  },
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Build an event that re-applies a conflict's losing values
+ *
+ * A lost delete (or task restore) is re-applied as a delete (or restore)
+ * event; update events don't touch the tombstone fields, so an update would
+ * silently drop it.
+ */
+function buildReapplyEvent(conflict: Doc<"conflicts">) {
+  if (!REAPPLICABLE_CONFLICTS.includes(conflict.conflictType)) {
+    return null;
+  }
+
+  const idField = `${conflict.entityType}Id`;
+  const now = Date.now();
+
+  const tombstoned = conflict.losingValues.tombstoned;
+  if (tombstoned === true || (tombstoned === false && conflict.entityType === "task")) {
+    return {
+      eventId: generateEventId(now),
+      timestamp: now,
+      eventType: `tasks.${conflict.entityType}.${tombstoned ? "deleted" : "restored"}`,
+      schemaVersion: 1,
+      payload: { [idField]: conflict.entityId },
+    };
+  }
+
+  return {
+    eventId: generateEventId(now),
+    timestamp: now,
+    eventType: `tasks.${conflict.entityType}.updated`,
+    schemaVersion: 1,
+    payload: {
+      ...conflict.losingValues,
+      [idField]: conflict.entityId,
+    },
+  };
+}
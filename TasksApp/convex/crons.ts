@@ -0,0 +1,49 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+/**
+ * Scheduled Jobs
+ */
+const crons = cronJobs();
+
+// Recompute denormalized projection counters and repair any drift
+crons.daily(
+  "check projection integrity",
+  { hourUTC: 4, minuteUTC: 0 },
+  internal.integrity.checkAllUsers,
+  { repair: true }
+);
+
+// Verify every user's event hash chain
+crons.daily(
+  "verify event hash chains",
+  { hourUTC: 5, minuteUTC: 0 },
+  internal.chain.verifyAllChains,
+  {}
+);
+
+// Snapshot projections and archive superseded events
+crons.weekly(
+  "compact event logs",
+  { dayOfWeek: "sunday", hourUTC: 3, minuteUTC: 0 },
+  internal.compaction.compactAllUsers,
+  {}
+);
+
+// Reschedule projection drains that died mid-run
+crons.interval(
+  "recover stalled projection drains",
+  { minutes: 15 },
+  internal.projections.recoverStalledDrains,
+  {}
+);
+
+// Delete stored batch responses whose Idempotency-Key has expired
+crons.hourly(
+  "purge expired idempotency keys",
+  { minuteUTC: 15 },
+  internal.idempotency.purgeExpiredKeys,
+  {}
+);
+
+export default crons;
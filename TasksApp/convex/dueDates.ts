@@ -0,0 +1,153 @@
+/**
+ * Due Date Module
+ *
+ * Places task due dates in the user's time zone. A task's due day comes
+ * from `dueDate` and its due time, if any, from `dueTime`:
+ *
+ * - plain values ("2026-03-14", "09:30", "2026-03-14T09:30:00") are wall
+ *   clock values in the user's zone
+ * - values with an offset ("2026-03-13T23:00:00Z") are instants, converted
+ *   to the user's zone
+ *
+ * A task with a due time is overdue once that time has passed; one without
+ * is overdue from the next day on.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Wall clock date and time in a time zone
+ */
+export interface LocalClock {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+}
+
+export interface LocalDue {
+  date: string;
+  time: string | null;
+}
+
+export type DueStatus = "overdue" | "today" | "upcoming";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Zone used when neither the request nor the profile names one
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const PLAIN_DATE = /^(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2}))?/;
+
+const PLAIN_TIME = /^(\d{2}:\d{2})/;
+
+const ZONED = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+// ============================================================================
+// Time Zones
+// ============================================================================
+
+/**
+ * Whether a string is an IANA time zone the runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall clock date and time of an instant in a time zone
+ */
+export function localClock(timeZone: string, instant: number): LocalClock {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(new Date(instant))
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+/**
+ * Shift an ISO date (YYYY-MM-DD) by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split("T")[0];
+}
+
+// ============================================================================
+// Due Dates
+// ============================================================================
+
+/**
+ * A task's due day and time in a time zone, or null if it has no
+ * (readable) due date
+ */
+export function resolveDue(
+  task: { dueDate?: string; dueTime?: string },
+  timeZone: string
+): LocalDue | null {
+  if (!task.dueDate) {
+    return null;
+  }
+
+  const date = ZONED.test(task.dueDate)
+    ? instantClock(task.dueDate, timeZone)?.date
+    : task.dueDate.match(PLAIN_DATE)?.[1];
+  if (!date) {
+    return null;
+  }
+
+  return { date, time: task.dueTime ? resolveTime(task.dueTime, timeZone) : null };
+}
+
+/**
+ * Where a due date falls relative to the clock
+ */
+export function classifyDue(due: LocalDue, clock: LocalClock): DueStatus {
+  if (due.date < clock.date) {
+    return "overdue";
+  }
+
+  if (due.date > clock.date) {
+    return "upcoming";
+  }
+
+  return due.time !== null && due.time < clock.time ? "overdue" : "today";
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function resolveTime(dueTime: string, timeZone: string): string | null {
+  if (ZONED.test(dueTime)) {
+    return instantClock(dueTime, timeZone)?.time ?? null;
+  }
+
+  return dueTime.match(PLAIN_DATE)?.[2] ?? dueTime.match(PLAIN_TIME)?.[1] ?? null;
+}
+
+function instantClock(value: string, timeZone: string): LocalClock | null {
+  const instant = Date.parse(value);
+  return Number.isNaN(instant) ? null : localClock(timeZone, instant);
+}
@@ -0,0 +1,374 @@
+import { GenericValidator } from "convex/values";
+import {
+  taskEventPayload,
+  listEventPayload,
+  tagEventPayload,
+  voiceEventPayload,
+  aiEventPayload,
+  naturalInputEventPayload,
+  calendarEventPayload,
+  subtaskEventPayload,
+  tagAssignmentEventPayload,
+  attachmentEventPayload,
+  attachmentStatusEventPayload,
+  bulkEventPayload,
+  clientEventPayload,
+} from "./schema";
+
+/**
+ * Event Type Registry
+ *
+ * This module defines the event types the backend accepts and the payload
+ * validator for each one. Events are checked against it at ingestion, so a
+ * malformed client build is rejected up front instead of failing later
+ * inside the projector.
+ *
+ * It also holds the payload upcasters. Stored events keep the schemaVersion
+ * they were written with; upcasters lift old payloads to the current shape
+ * whenever an event is validated or projected, so replay keeps working as
+ * payloads evolve.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A single field-level validation problem
+ */
+export interface ValidationIssue {
+  // Dotted path to the offending field (e.g., "payload.recurrence.interval")
+  path: string;
+
+  // Human-readable description of the problem
+  message: string;
+}
+
+/**
+ * Upcaster configuration
+ *
+ * Transforms a payload written at `fromVersion` into the shape expected at
+ * `fromVersion + 1`.
+ */
+interface EventUpcaster {
+  // Event type pattern (supports wildcards with *)
+  eventType: string;
+
+  // Schema version this upcaster reads
+  fromVersion: number;
+
+  // Payload transformation
+  upcast: (payload: any) => any;
+}
+
+/**
+ * Minimal event shape needed for upcasting
+ */
+interface VersionedEvent {
+  eventType: string;
+  schemaVersion: number;
+  payload: any;
+}
+
+// ============================================================================
+// Event Registry
+// ============================================================================
+
+/**
+ * Registry of accepted event types and their payload validators
+ *
+ * Covers every event type the iOS client emits (DomainEventType in
+ * DomainEvent.swift); an unregistered type is rejected as non-retryable,
+ * so a type added to the client must be registered here first.
+ */
+const EVENT_PAYLOAD_REGISTRY: Record<string, GenericValidator> = {
+  // List events
+  "tasks.list.created": listEventPayload,
+  "tasks.list.updated": listEventPayload,
+  "tasks.list.deleted": listEventPayload,
+  "tasks.list.reordered": listEventPayload,
+
+  // Task events
+  "tasks.task.created": taskEventPayload,
+  "tasks.task.updated": taskEventPayload,
+  "tasks.task.deleted": taskEventPayload,
+  "tasks.task.restored": taskEventPayload,
+  "tasks.task.completed": taskEventPayload,
+  "tasks.task.uncompleted": taskEventPayload,
+  "tasks.task.moved": taskEventPayload,
+  "tasks.task.reordered": taskEventPayload,
+  "tasks.task.flagged": taskEventPayload,
+  "tasks.task.unflagged": taskEventPayload,
+
+  // Subtask events
+  "tasks.subtask.added": subtaskEventPayload,
+  "tasks.subtask.removed": subtaskEventPayload,
+
+  // Tag events
+  "tasks.tag.created": tagEventPayload,
+  "tasks.tag.updated": tagEventPayload,
+  "tasks.tag.deleted": tagEventPayload,
+  "tasks.tag.assigned": tagAssignmentEventPayload,
+  "tasks.tag.unassigned": tagAssignmentEventPayload,
+
+  // Attachment events
+  "tasks.attachment.added": attachmentEventPayload,
+  "tasks.attachment.removed": attachmentEventPayload,
+  "tasks.attachment.status_changed": attachmentStatusEventPayload,
+
+  // Voice events
+  "tasks.voice.recorded": voiceEventPayload,
+  "tasks.voice.transcribed": voiceEventPayload,
+
+  // AI events
+  "tasks.ai.suggestion.requested": aiEventPayload,
+  "tasks.ai.suggestion.generated": aiEventPayload,
+  "tasks.ai.duedate.requested": aiEventPayload,
+  "tasks.ai.priority.requested": aiEventPayload,
+  "tasks.ai.tags.requested": aiEventPayload,
+  "tasks.ai.list.requested": aiEventPayload,
+
+  // Natural language input
+  "tasks.natural.input": naturalInputEventPayload,
+
+  // Calendar integration
+  "tasks.calendar.sync.requested": calendarEventPayload,
+  "tasks.calendar.mirrored": clientEventPayload,
+  "tasks.calendar.unmirrored": clientEventPayload,
+  "tasks.calendar.imported": clientEventPayload,
+  "tasks.calendar.synced": clientEventPayload,
+
+  // Consent
+  "tasks.consent.updated": clientEventPayload,
+  "tasks.consent.snapshot_created": clientEventPayload,
+
+  // Bulk operations
+  "tasks.bulk.completed": bulkEventPayload,
+  "tasks.bulk.deleted": bulkEventPayload,
+  "tasks.bulk.moved": bulkEventPayload,
+};
+
+/**
+ * Registry of payload upcasters
+ *
+ * Add an entry whenever a payload shape changes, e.g. to split task
+ * dueDate/dueTime into a zoned datetime:
+ *
+ * ```typescript
+ * {
+ *   eventType: "tasks.task.*",
+ *   fromVersion: 1,
+ *   upcast: ({ dueDate, dueTime, ...rest }) => ({
+ *     ...rest,
+ *     due: dueDate ? { date: dueDate, time: dueTime ?? null, timeZone: "UTC" } : null,
+ *   }),
+ * }
+ * ```
+ */
+const EVENT_UPCASTERS: EventUpcaster[] = [];
+
+// ============================================================================
+// Registry Functions
+// ============================================================================
+
+/**
+ * Check if an event type is known to the backend
+ */
+export function isKnownEventType(eventType: string): boolean {
+  return eventType in EVENT_PAYLOAD_REGISTRY;
+}
+
+/**
+ * Validate an event's type and payload
+ *
+ * Returns an empty array if the event is valid.
+ */
+export function validateEvent(eventType: string, payload: unknown): ValidationIssue[] {
+  const validator = EVENT_PAYLOAD_REGISTRY[eventType];
+  if (!validator) {
+    return [{ path: "eventType", message: `Unknown event type: ${eventType}` }];
+  }
+
+  return validateValue(validator, payload, "payload");
+}
+
+/**
+ * Get the ID of the list, task or tag an event targets
+ *
+ * Stored on the event (entityId) so an entity's history can be read from
+ * the log without scanning payloads. Undefined for events that don't target
+ * a projected entity.
+ */
+export function getEntityId(eventType: string, payload: any): string | undefined {
+  if (eventType.startsWith("tasks.list.")) return payload?.listId;
+  if (eventType.startsWith("tasks.task.")) return payload?.taskId;
+  if (eventType.startsWith("tasks.tag.")) return payload?.tagId;
+  return undefined;
+}
+
+/**
+ * Find the upcaster for an event type at a schema version
+ */
+function findUpcaster(eventType: string, fromVersion: number): EventUpcaster | null {
+  return EVENT_UPCASTERS.find((upcaster) => {
+    if (upcaster.fromVersion !== fromVersion) {
+      return false;
+    }
+
+    if (upcaster.eventType === eventType) {
+      return true;
+    }
+
+    // Support wildcard matching (e.g., "tasks.task.*")
+    if (upcaster.eventType.endsWith("*")) {
+      const prefix = upcaster.eventType.slice(0, -1);
+      return eventType.startsWith(prefix);
+    }
+
+    return false;
+  }) ?? null;
+}
+
+/**
+ * Upcast an event's payload to the current schema version
+ *
+ * Applies upcasters one version at a time until none matches. Returns a copy
+ * of the event; the stored event is never modified.
+ */
+export function upcastEvent<T extends VersionedEvent>(event: T): T {
+  let payload = event.payload;
+  let schemaVersion = event.schemaVersion;
+
+  for (
+    let upcaster = findUpcaster(event.eventType, schemaVersion);
+    upcaster;
+    upcaster = findUpcaster(event.eventType, schemaVersion)
+  ) {
+    payload = upcaster.upcast(payload);
+    schemaVersion++;
+  }
+
+  if (schemaVersion === event.schemaVersion) {
+    return event;
+  }
+
+  return { ...event, payload, schemaVersion };
+}
+
+// ============================================================================
+// Validator Walker
+// ============================================================================
+
+/**
+ * Check a value against a Convex validator, collecting field-level issues
+ */
+export function validateValue(
+  validator: GenericValidator,
+  value: unknown,
+  path: string
+): ValidationIssue[] {
+  switch (validator.kind) {
+    case "any":
+      return [];
+
+    case "string":
+    case "id":
+      return typeof value === "string" ? [] : [typeIssue(path, "string", value)];
+
+    case "float64":
+      return typeof value === "number" ? [] : [typeIssue(path, "number", value)];
+
+    case "int64":
+      return typeof value === "bigint" ? [] : [typeIssue(path, "bigint", value)];
+
+    case "boolean":
+      return typeof value === "boolean" ? [] : [typeIssue(path, "boolean", value)];
+
+    case "null":
+      return value === null ? [] : [typeIssue(path, "null", value)];
+
+    case "bytes":
+      return value instanceof ArrayBuffer ? [] : [typeIssue(path, "bytes", value)];
+
+    case "literal":
+      return value === validator.value
+        ? []
+        : [{ path, message: `Expected ${JSON.stringify(validator.value)}` }];
+
+    case "array": {
+      if (!Array.isArray(value)) {
+        return [typeIssue(path, "array", value)];
+      }
+      return value.flatMap((item, index) =>
+        validateValue(validator.element, item, `${path}[${index}]`)
+      );
+    }
+
+    case "record": {
+      if (!isPlainObject(value)) {
+        return [typeIssue(path, "object", value)];
+      }
+      return Object.entries(value).flatMap(([key, item]) =>
+        validateValue(validator.value, item, `${path}.${key}`)
+      );
+    }
+
+    case "object": {
+      if (!isPlainObject(value)) {
+        return [typeIssue(path, "object", value)];
+      }
+
+      const issues: ValidationIssue[] = [];
+      for (const [key, fieldValidator] of Object.entries(validator.fields)) {
+        const fieldValue = value[key];
+        if (fieldValue === undefined) {
+          if (fieldValidator.isOptional !== "optional") {
+            issues.push({ path: `${path}.${key}`, message: "Required field is missing" });
+          }
+          continue;
+        }
+        issues.push(...validateValue(fieldValidator, fieldValue, `${path}.${key}`));
+      }
+
+      for (const key of Object.keys(value)) {
+        if (!(key in validator.fields)) {
+          issues.push({ path: `${path}.${key}`, message: "Unknown field" });
+        }
+      }
+
+      return issues;
+    }
+
+    case "union": {
+      const memberIssues = validator.members.map((member) =>
+        validateValue(member, value, path)
+      );
+      if (memberIssues.some((issues) => issues.length === 0)) {
+        return [];
+      }
+
+      // Unions of literals read better as a list of allowed values
+      if (validator.members.every((member) => member.kind === "literal")) {
+        const allowed = validator.members.map((member) => JSON.stringify(member.value));
+        return [{ path, message: `Expected one of ${allowed.join(", ")}` }];
+      }
+
+      // Otherwise report the member that got furthest
+      return memberIssues.reduce((best, issues) =>
+        issues.length < best.length ? issues : best
+      );
+    }
+
+    default:
+      return [{ path, message: "Unsupported validator" }];
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typeIssue(path: string, expected: string, value: unknown): ValidationIssue {
+  const actual = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+  return { path, message: `Expected ${expected}, got ${actual}` };
+}
@@ -0,0 +1,408 @@
+import { internalMutation, internalQuery, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { WithoutSystemFields } from "convex/server";
+import { Doc } from "./_generated/dataModel";
+import { getEntityId, upcastEvent } from "./eventRegistry";
+import { internal } from "./_generated/api";
+import { legacyHlc } from "./clock";
+
+/**
+ * Task History Module
+ *
+ * Reconstructs a task from the event log (including events compaction has
+ * archived): the ordered events that touched it (its own events, plus
+ * deletions of its lists and tags), who sent each one, which fields it
+ * changed, and the task's state after it. The same replay answers "what did
+ * this task look like at time T".
+ *
+ * The replay mirrors the projector's task handlers in memory. Events are
+ * folded in HLC order (events stored before HLCs fall back to their
+ * timestamp, as in the projector), so the last write to each field in clock
+ * order wins, as in the projector's per-field merge. Effects the projector
+ * applies in projection order rather than by clock (list and tag delete
+ * cascades) can differ when their events arrive late.
+ *
+ * Timelines are read through the events' entityId. Events stored before it
+ * was recorded get it from backfillEventEntityIds; run it once after
+ * deploying (`npx convex run history:backfillEventEntityIds`).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// An event as logged, whether still in events or moved to archivedEvents
+export type LoggedEvent = WithoutSystemFields<Doc<"events">>;
+
+// Where an event falls in a replay
+type ReplayPosition = Pick<LoggedEvent, "timestamp" | "eventId" | "hlc">;
+
+export type TaskState = Record<string, unknown> & {
+  taskId: string;
+  listId: string;
+  tags: string[];
+  tombstoned: boolean;
+};
+
+interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+interface HistoryEntry {
+  eventId: string;
+  eventType: string;
+  timestamp: number;
+  serverTimestamp: number;
+  deviceId: string;
+  changes: FieldChange[];
+  state: TaskState | null;
+}
+
+// Task payload fields that are nullable in events and cleared when null
+export const NULLABLE_TASK_FIELDS = [
+  "dueDate",
+  "dueTime",
+  "completedAt",
+  "calendarEventId",
+  "recurrence",
+  "location",
+  "url",
+];
+
+// Events checked per entityId backfill run
+const BACKFILL_PAGE_SIZE = 100;
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * Get the history of a task, or its state at a point in time
+ *
+ * Without `asOf`, returns every event that changed the task with its diff
+ * and resulting state. With `asOf`, replays events up to that time and
+ * returns only the state (null if the task didn't exist yet).
+ */
+export const queryTaskHistory = internalQuery({
+  args: {
+    userId: v.string(),
+    taskId: v.string(),
+    asOf: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const events = await fetchTaskTimeline(ctx, args.userId, args.taskId);
+    if (events.length === 0) {
+      return null;
+    }
+
+    const asOf = args.asOf;
+    const timeline = asOf === undefined ? events : events.filter((e) => e.timestamp <= asOf);
+
+    let state: TaskState | null = null;
+    let lastEventId: string | null = null;
+    const entries: HistoryEntry[] = [];
+
+    for (const event of timeline) {
+      const next = applyTaskEvent(state, upcastEvent(event), args.taskId);
+      const changes = diffStates(state, next);
+
+      // Cascades that didn't apply (e.g. a list the task had left) aren't history
+      if (changes.length === 0) {
+        continue;
+      }
+
+      entries.push({
+        eventId: event.eventId,
+        eventType: event.eventType,
+        timestamp: event.timestamp,
+        serverTimestamp: event.serverTimestamp,
+        deviceId: event.deviceId,
+        changes,
+        state: next,
+      });
+
+      state = next;
+      lastEventId = event.eventId;
+    }
+
+    if (asOf !== undefined) {
+      return { taskId: args.taskId, asOf, state, lastEventId };
+    }
+
+    return { taskId: args.taskId, events: entries, state };
+  },
+});
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Record the target entity on events stored before entityId existed
+ *
+ * Pages through the event log, scheduling itself until done. Without it,
+ * history misses old events that haven't been projected again since.
+ */
+export const backfillEventEntityIds = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("events")
+      .paginate({ numItems: BACKFILL_PAGE_SIZE, cursor: args.cursor ?? null });
+
+    let backfilled = 0;
+    for (const event of page.page) {
+      if (event.entityId !== undefined) {
+        continue;
+      }
+
+      let entityId: string | undefined;
+      try {
+        entityId = getEntityId(event.eventType, upcastEvent(event).payload);
+      } catch (error) {
+        console.warn(`Skipping entityId backfill for event ${event.eventId}:`, error);
+      }
+
+      if (entityId !== undefined) {
+        await ctx.db.patch(event._id, { entityId });
+        backfilled++;
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.history.backfillEventEntityIds, {
+        cursor: page.continueCursor,
+      });
+    }
+
+    return { backfilled, hasMore: !page.isDone };
+  },
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Reconstruct a task's state just before a position in the event log
+ *
+ * Used by undo to find the values an event overwrote. Returns null if the
+ * task didn't exist yet.
+ */
+export async function reconstructTaskStateBefore(
+  ctx: QueryCtx,
+  userId: string,
+  taskId: string,
+  position: ReplayPosition
+): Promise<TaskState | null> {
+  const events = await fetchTaskTimeline(ctx, userId, taskId);
+
+  let state: TaskState | null = null;
+  for (const event of events) {
+    if (comparePositions(event, position) >= 0) {
+      break;
+    }
+    state = applyTaskEvent(state, upcastEvent(event), taskId);
+  }
+
+  return state;
+}
+
+/**
+ * Fetch the events that can change a task, in replay order
+ *
+ * The task's own events, plus deletions of any list it was in and any tag
+ * it carried, since those cascade to the task.
+ */
+async function fetchTaskTimeline(
+  ctx: QueryCtx,
+  userId: string,
+  taskId: string
+): Promise<LoggedEvent[]> {
+  const own = await fetchEntityEvents(ctx, userId, taskId);
+  if (own.length === 0) {
+    return [];
+  }
+
+  const listIds = new Set<string>();
+  const tagIds = new Set<string>();
+  for (const event of own) {
+    const payload = upcastEvent(event).payload;
+    if (payload?.listId) listIds.add(payload.listId);
+    for (const tagId of payload?.tags ?? []) tagIds.add(tagId);
+  }
+
+  const cascades: LoggedEvent[] = [];
+  for (const listId of listIds) {
+    const events = await fetchEntityEvents(ctx, userId, listId);
+    cascades.push(...events.filter((e) => e.eventType === "tasks.list.deleted"));
+  }
+  for (const tagId of tagIds) {
+    const events = await fetchEntityEvents(ctx, userId, tagId);
+    cascades.push(...events.filter((e) => e.eventType === "tasks.tag.deleted"));
+  }
+
+  return [...own, ...cascades].sort(comparePositions);
+}
+
+/**
+ * Order events by HLC, then event ID
+ */
+function comparePositions(a: ReplayPosition, b: ReplayPosition): number {
+  const aClock = a.hlc ?? legacyHlc(a.timestamp);
+  const bClock = b.hlc ?? legacyHlc(b.timestamp);
+  if (aClock !== bClock) return aClock < bClock ? -1 : 1;
+  if (a.eventId === b.eventId) return 0;
+  return a.eventId < b.eventId ? -1 : 1;
+}
+
+async function fetchEntityEvents(
+  ctx: QueryCtx,
+  userId: string,
+  entityId: string
+): Promise<LoggedEvent[]> {
+  const live = await ctx.db
+    .query("events")
+    .withIndex("by_user_entity", (q) => q.eq("userId", userId).eq("entityId", entityId))
+    .collect();
+
+  const archived = await ctx.db
+    .query("archivedEvents")
+    .withIndex("by_user_entity", (q) => q.eq("userId", userId).eq("entityId", entityId))
+    .collect();
+
+  return [...archived.map((row) => row.event as LoggedEvent), ...live].sort(comparePositions);
+}
+
+/**
+ * Apply one event to a task's state, returning the new state
+ *
+ * Mirrors the projector: defaults on create, updates without a prior create
+ * only create the task when they carry a listId.
+ */
+function applyTaskEvent(
+  state: TaskState | null,
+  event: LoggedEvent,
+  taskId: string
+): TaskState | null {
+  const payload = event.payload ?? {};
+
+  switch (event.eventType) {
+    case "tasks.task.created":
+    case "tasks.task.updated":
+      if (state) {
+        return { ...state, ...fieldsFromPayload(payload) };
+      }
+      if (!payload.listId) {
+        return null;
+      }
+      return {
+        taskId,
+        listId: payload.listId,
+        title: "Untitled Task",
+        priority: "none",
+        tags: [],
+        flag: false,
+        completed: false,
+        redBeaconEnabled: false,
+        mirrorToCalendar: false,
+        subtasks: [],
+        attachments: [],
+        sortOrder: 0,
+        createdAt: event.timestamp,
+        tombstoned: false,
+        ...fieldsFromPayload(payload),
+      };
+
+    case "tasks.task.deleted":
+      return state && { ...state, tombstoned: true, tombstonedAt: event.timestamp };
+
+    case "tasks.task.restored":
+      return state && { ...state, tombstoned: false, tombstonedAt: undefined };
+
+    case "tasks.task.completed":
+      return state && {
+        ...state,
+        completed: true,
+        completedAt: payload.completedAt ?? new Date(event.timestamp).toISOString(),
+      };
+
+    case "tasks.task.uncompleted":
+      return state && { ...state, completed: false, completedAt: undefined };
+
+    case "tasks.task.moved":
+      if (!state || !payload.listId) {
+        return state;
+      }
+      return {
+        ...state,
+        listId: payload.listId,
+        ...(payload.sortOrder !== undefined ? { sortOrder: payload.sortOrder } : {}),
+      };
+
+    case "tasks.task.reordered":
+      if (!state || payload.sortOrder === undefined) {
+        return state;
+      }
+      return { ...state, sortOrder: payload.sortOrder };
+
+    case "tasks.list.deleted":
+      if (!state || state.tombstoned || state.listId !== payload.listId) {
+        return state;
+      }
+      return { ...state, tombstoned: true, tombstonedAt: event.timestamp };
+
+    case "tasks.tag.deleted":
+      if (!state || !state.tags.includes(payload.tagId)) {
+        return state;
+      }
+      return { ...state, tags: state.tags.filter((tagId) => tagId !== payload.tagId) };
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Task fields set by a created/updated payload (null clears nullable fields)
+ */
+function fieldsFromPayload(payload: Record<string, unknown>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(payload)) {
+    if (field === "taskId" || value === undefined) {
+      continue;
+    }
+    fields[field] = value === null && NULLABLE_TASK_FIELDS.includes(field) ? undefined : value;
+  }
+
+  return fields;
+}
+
+/**
+ * Field-level diff between two task states (cleared values reported as null)
+ */
+function diffStates(before: TaskState | null, after: TaskState | null): FieldChange[] {
+  if (before === after) {
+    return [];
+  }
+
+  const previous: Record<string, unknown> = before ?? {};
+  const next: Record<string, unknown> = after ?? {};
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const changes: FieldChange[] = [];
+
+  for (const field of fields) {
+    const from = previous[field] ?? null;
+    const to = next[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+}
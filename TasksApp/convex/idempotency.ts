@@ -0,0 +1,123 @@
+import { internalMutation, MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+/**
+ * Request Idempotency Module
+ *
+ * Event IDs make individual events idempotent, but a retried batch request
+ * should also get back the response the original request produced. Clients
+ * send an Idempotency-Key header; the first response for a key is stored
+ * (scoped per user and app) and returned verbatim to retries. Reusing a key
+ * for a different request body is an error.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// How long stored responses are kept (24 hours)
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Longest accepted Idempotency-Key header
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// Expired keys deleted per purge run
+const PURGE_BATCH_SIZE = 500;
+
+// ============================================================================
+// Stored Responses
+// ============================================================================
+
+/**
+ * Find the stored response for a key, ignoring expired ones
+ */
+export async function findIdempotencyRecord(
+  ctx: MutationCtx,
+  userId: string,
+  appId: string,
+  key: string
+): Promise<Doc<"idempotencyKeys"> | null> {
+  const record = await ctx.db
+    .query("idempotencyKeys")
+    .withIndex("by_user_app_key", (q) =>
+      q.eq("userId", userId).eq("appId", appId).eq("key", key)
+    )
+    .first();
+
+  if (!record || record.expiresAt <= Date.now()) {
+    return null;
+  }
+
+  return record;
+}
+
+/**
+ * Store the response for a key, replacing an expired record
+ */
+export async function storeIdempotencyRecord(
+  ctx: MutationCtx,
+  args: {
+    userId: string;
+    appId: string;
+    key: string;
+    requestHash: string;
+    response: unknown;
+  }
+): Promise<void> {
+  const now = Date.now();
+  const record = {
+    ...args,
+    createdAt: now,
+    expiresAt: now + IDEMPOTENCY_KEY_TTL_MS,
+  };
+
+  const existing = await ctx.db
+    .query("idempotencyKeys")
+    .withIndex("by_user_app_key", (q) =>
+      q.eq("userId", args.userId).eq("appId", args.appId).eq("key", args.key)
+    )
+    .first();
+
+  if (existing) {
+    await ctx.db.replace(existing._id, record);
+  } else {
+    await ctx.db.insert("idempotencyKeys", record);
+  }
+}
+
+/**
+ * SHA-256 of a request body, hex encoded
+ */
+export async function hashRequestBody(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Delete expired stored responses (run periodically from crons.ts)
+ */
+export const purgeExpiredKeys = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("idempotencyKeys")
+      .withIndex("by_expires", (q) => q.lt("expiresAt", Date.now()))
+      .take(PURGE_BATCH_SIZE);
+
+    for (const record of expired) {
+      await ctx.db.delete(record._id);
+    }
+
+    // Keep going until the backlog is cleared
+    if (expired.length === PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.idempotency.purgeExpiredKeys, {});
+    }
+
+    return { deleted: expired.length };
+  },
+});
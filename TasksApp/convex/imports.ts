@@ -0,0 +1,563 @@
+import { internalAction, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { EventInput, ingestEvents } from "./ingestion";
+import { eventInputValidator } from "./schema";
+import { validateValue } from "./eventRegistry";
+import { consumeIngestionQuota } from "./rateLimits";
+import { receivedSequences, recordDeviceSequences } from "./sequences";
+
+/**
+ * Stream Import Module
+ *
+ * Migrations and imports send far more events than fit in one JSON body.
+ * POST /api/events/stream stores the newline-delimited JSON body (one event
+ * per line), creates an import job and answers 202 with its ID right away.
+ * The rest runs in the background:
+ *
+ * 1. spoolImport reads the stored body, shape-checks each line and stores
+ *    the lines as chunks small enough for one mutation
+ * 2. ingestImportChunk ingests the chunk at the job's `nextChunk` offset
+ *    through ingestEvents and schedules itself for the next one; when rate
+ *    limited it reschedules itself for when the quota allows the chunk
+ *
+ * Lines that aren't JSON or don't have the shape of an event are rejected
+ * individually, like events that fail validation. The caller polls the job
+ * for progress; event IDs make resending lines after a failed job harmless.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ImportFailure {
+  line: number;
+  eventId?: string;
+  reason: string;
+  message?: string;
+}
+
+/**
+ * A non-blank line of the stream, read as an event or rejected
+ */
+export type StreamLine =
+  | { line: number; event: EventInput }
+  | { line: number; failure: ImportFailure };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Events per chunk (one ingestImportChunk run each)
+export const STREAM_CHUNK_EVENTS = 200;
+
+// Approximate JSON bytes per chunk, well under the mutation argument limit
+export const STREAM_CHUNK_BYTES = 512 * 1024;
+
+// Longest accepted line; longer lines are rejected
+export const MAX_STREAM_LINE_BYTES = 128 * 1024;
+
+// Rejected lines recorded on a job
+const MAX_RECORDED_FAILURES = 100;
+
+// ============================================================================
+// Stream Parsing
+// ============================================================================
+
+/**
+ * Read a body stream as events, one per line, skipping blank lines
+ *
+ * Each line must be a JSON object with the shape of an uploaded event;
+ * other lines come back as failures. Lines longer than
+ * MAX_STREAM_LINE_BYTES are rejected without being buffered, so a stream
+ * without newlines can't exhaust memory.
+ */
+export async function* readStreamLines(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<StreamLine> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let line = 0;
+
+  // Set while discarding the rest of an overlong line
+  let skipping = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      line++;
+      const text = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (skipping) {
+        skipping = false;
+      } else if (text.length > 0) {
+        yield parseStreamLine(line, text);
+      }
+      newline = buffer.indexOf("\n");
+    }
+
+    if (buffer.length > MAX_STREAM_LINE_BYTES) {
+      if (!skipping) {
+        yield {
+          line: line + 1,
+          failure: {
+            line: line + 1,
+            reason: "LINE_TOO_LONG",
+            message: `Line exceeds ${MAX_STREAM_LINE_BYTES} bytes`,
+          },
+        };
+        skipping = true;
+      }
+      buffer = "";
+    }
+
+    if (done) {
+      break;
+    }
+  }
+
+  // Last line without a trailing newline
+  const text = buffer.trim();
+  if (!skipping && text.length > 0) {
+    yield parseStreamLine(line + 1, text);
+  }
+}
+
+/**
+ * Parse one line and check it has the shape insertEventBatch accepts
+ */
+function parseStreamLine(line: number, text: string): StreamLine {
+  let event: unknown;
+  try {
+    event = JSON.parse(text);
+  } catch (error) {
+    return {
+      line,
+      failure: {
+        line,
+        reason: "INVALID_JSON",
+        message: error instanceof Error ? error.message : "Invalid JSON",
+      },
+    };
+  }
+
+  const issues = validateValue(eventInputValidator, event, "");
+  if (issues.length > 0) {
+    return {
+      line,
+      failure: {
+        line,
+        eventId: typeof (event as { eventId?: unknown })?.eventId === "string"
+          ? (event as { eventId: string }).eventId
+          : undefined,
+        reason: "INVALID_EVENT",
+        message: issues
+          .map((issue) => `${issue.path.replace(/^\./, "") || "event"}: ${issue.message}`)
+          .join("; "),
+      },
+    };
+  }
+
+  return { line, event: event as EventInput };
+}
+
+// ============================================================================
+// Internal Actions
+// ============================================================================
+
+/**
+ * Split an import job's stored body into chunks, then start ingesting them
+ */
+export const spoolImport = internalAction({
+  args: {
+    jobId: v.id("importJobs"),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    let events: EventInput[] = [];
+    let lines: number[] = [];
+    let failures: ImportFailure[] = [];
+    let chunkBytes = 0;
+    let chunkIndex = 0;
+    let linesRead = 0;
+
+    const storeChunk = async () => {
+      if (events.length === 0 && failures.length === 0) {
+        return;
+      }
+      await ctx.runMutation(internal.imports.storeImportChunk, {
+        jobId: args.jobId,
+        index: chunkIndex++,
+        events,
+        lines,
+        failures,
+        lastLine: linesRead,
+      });
+      events = [];
+      lines = [];
+      failures = [];
+      chunkBytes = 0;
+    };
+
+    try {
+      const body = await ctx.storage.get(args.storageId);
+      if (!body) {
+        throw new Error("Stored import body not found");
+      }
+
+      for await (const parsed of readStreamLines(body.stream())) {
+        linesRead = parsed.line;
+
+        if ("failure" in parsed) {
+          failures.push(parsed.failure);
+        } else {
+          events.push(parsed.event);
+          lines.push(parsed.line);
+          chunkBytes += JSON.stringify(parsed.event).length;
+        }
+
+        if (events.length >= STREAM_CHUNK_EVENTS || chunkBytes >= STREAM_CHUNK_BYTES) {
+          await storeChunk();
+        }
+      }
+
+      await storeChunk();
+
+      await ctx.runMutation(internal.imports.startImportIngestion, {
+        jobId: args.jobId,
+        chunks: chunkIndex,
+        linesRead,
+      });
+    } catch (error) {
+      console.error(`Error reading import job ${args.jobId}:`, error);
+      await ctx.runMutation(internal.imports.finishImportJob, {
+        jobId: args.jobId,
+        status: "failed",
+        lastError: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  },
+});
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Create an import job for a stored body and schedule reading it
+ */
+export const createImportJob = internalMutation({
+  args: {
+    userId: v.string(),
+    deviceId: v.string(),
+    consentSnapshotId: v.string(),
+    sentAt: v.optional(v.number()),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const jobId = await ctx.db.insert("importJobs", {
+      userId: args.userId,
+      deviceId: args.deviceId,
+      status: "receiving",
+      consentSnapshotId: args.consentSnapshotId,
+      sentAt: args.sentAt,
+      storageId: args.storageId,
+      linesRead: 0,
+      linesCommitted: 0,
+      chunksStored: 0,
+      nextChunk: 0,
+      acceptedCount: 0,
+      duplicateCount: 0,
+      rejectedCount: 0,
+      chunkCount: 0,
+      failures: [],
+      startedAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.imports.spoolImport, {
+      jobId,
+      storageId: args.storageId,
+    });
+
+    return jobId;
+  },
+});
+
+/**
+ * Store one chunk of an import job's lines
+ */
+export const storeImportChunk = internalMutation({
+  args: {
+    jobId: v.id("importJobs"),
+    index: v.number(),
+    events: v.array(eventInputValidator),
+    lines: v.array(v.number()),
+    failures: v.array(v.object({
+      line: v.number(),
+      eventId: v.optional(v.string()),
+      reason: v.string(),
+      message: v.optional(v.string()),
+    })),
+    lastLine: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("importChunks", {
+      jobId: args.jobId,
+      index: args.index,
+      events: args.events,
+      lines: args.lines,
+      failures: args.failures,
+      lastLine: args.lastLine,
+    });
+
+    await ctx.db.patch(args.jobId, {
+      linesRead: args.lastLine,
+      chunksStored: args.index + 1,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Mark an import job's body as read and start ingesting its chunks
+ */
+export const startImportIngestion = internalMutation({
+  args: {
+    jobId: v.id("importJobs"),
+    chunks: v.number(),
+    linesRead: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.jobId, {
+      status: "running",
+      linesRead: args.linesRead,
+      chunksStored: args.chunks,
+      updatedAt: Date.now(),
+    });
+
+    await ctx.scheduler.runAfter(0, internal.imports.ingestImportChunk, { jobId: args.jobId });
+  },
+});
+
+/**
+ * Ingest the chunk at an import job's offset, then schedule the next one
+ *
+ * Finishes the job once every stored chunk is ingested.
+ */
+export const ingestImportChunk = internalMutation({
+  args: {
+    jobId: v.id("importJobs"),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.status !== "running") {
+      return;
+    }
+
+    const index = job.nextChunk ?? 0;
+    const chunk = await ctx.db
+      .query("importChunks")
+      .withIndex("by_job", (q) => q.eq("jobId", job._id).eq("index", index))
+      .first();
+
+    if (!chunk) {
+      await completeImportJob(ctx, job);
+      return;
+    }
+
+    const failures: ImportFailure[] = [...chunk.failures];
+    let accepted = 0;
+    let duplicates = 0;
+
+    if (chunk.events.length > 0) {
+      // Backpressure: try again once the rate limit allows this chunk
+      const quota = await consumeIngestionQuota(ctx, job.userId, job.deviceId, chunk.events.length);
+      if (!quota.allowed) {
+        await ctx.db.patch(job._id, { updatedAt: Date.now() });
+        await ctx.scheduler.runAfter(quota.retryAfterMs, internal.imports.ingestImportChunk, {
+          jobId: job._id,
+        });
+        return;
+      }
+
+      const result = await ingestEvents(ctx, {
+        userId: job.userId,
+        deviceId: job.deviceId,
+        appId: "com.orion.tasks",
+        events: chunk.events,
+        consentSnapshotId: job.consentSnapshotId ?? "",
+        sentAt: job.sentAt,
+        // Imports aren't user edits; they'd flood the device's undo stack
+        undo: "none",
+      });
+
+      await recordDeviceSequences(
+        ctx,
+        job.userId,
+        job.deviceId,
+        receivedSequences(chunk.events, result.results)
+      );
+
+      result.results.forEach((r, i) => {
+        if (r.status === "accepted") {
+          accepted++;
+        } else if (r.status === "duplicate") {
+          duplicates++;
+        } else {
+          failures.push({
+            line: chunk.lines[i],
+            eventId: r.eventId,
+            reason: r.reason ?? "INTERNAL_ERROR",
+            message: r.message,
+          });
+        }
+      });
+    }
+
+    await ctx.db.patch(job._id, {
+      linesCommitted: chunk.lastLine,
+      nextChunk: index + 1,
+      acceptedCount: job.acceptedCount + accepted,
+      duplicateCount: job.duplicateCount + duplicates,
+      rejectedCount: job.rejectedCount + failures.length,
+      chunkCount: job.chunkCount + 1,
+      failures: [...job.failures, ...failures.sort((a, b) => a.line - b.line)]
+        .slice(0, MAX_RECORDED_FAILURES),
+      updatedAt: Date.now(),
+    });
+    await ctx.db.delete(chunk._id);
+
+    await ctx.scheduler.runAfter(0, internal.imports.ingestImportChunk, { jobId: job._id });
+  },
+});
+
+/**
+ * Mark an import job failed (e.g. its body couldn't be read)
+ */
+export const finishImportJob = internalMutation({
+  args: {
+    jobId: v.id("importJobs"),
+    status: v.union(v.literal("completed"), v.literal("failed")),
+    lastError: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) {
+      return;
+    }
+
+    await releaseImportData(ctx, job);
+
+    const now = Date.now();
+    await ctx.db.patch(job._id, {
+      status: args.status,
+      lastError: args.lastError,
+      updatedAt: now,
+      completedAt: now,
+    });
+  },
+});
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * List a user's most recent import jobs
+ */
+export const listImportJobs = internalQuery({
+  args: {
+    userId: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const jobs = await ctx.db
+      .query("importJobs")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .take(Math.min(args.limit ?? 20, 100));
+
+    return jobs.map(formatImportJob);
+  },
+});
+
+/**
+ * Get an import job's progress
+ */
+export const getImportJob = internalQuery({
+  args: {
+    userId: v.string(),
+    jobId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const jobId = ctx.db.normalizeId("importJobs", args.jobId);
+    const job = jobId ? await ctx.db.get(jobId) : null;
+
+    if (!job || job.userId !== args.userId) {
+      return null;
+    }
+
+    return formatImportJob(job);
+  },
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Mark an import job completed once its last chunk is ingested
+ */
+async function completeImportJob(ctx: MutationCtx, job: Doc<"importJobs">): Promise<void> {
+  await releaseImportData(ctx, job);
+
+  const now = Date.now();
+  await ctx.db.patch(job._id, { status: "completed", updatedAt: now, completedAt: now });
+}
+
+/**
+ * Delete a job's stored body and any chunks not yet ingested
+ */
+async function releaseImportData(ctx: MutationCtx, job: Doc<"importJobs">): Promise<void> {
+  if (job.storageId) {
+    await ctx.storage.delete(job.storageId);
+    await ctx.db.patch(job._id, { storageId: undefined });
+  }
+
+  const chunks = await ctx.db
+    .query("importChunks")
+    .withIndex("by_job", (q) => q.eq("jobId", job._id))
+    .collect();
+  for (const chunk of chunks) {
+    await ctx.db.delete(chunk._id);
+  }
+}
+
+/**
+ * Shape an import job for API responses
+ */
+function formatImportJob(job: Doc<"importJobs">) {
+  return {
+    jobId: job._id,
+    status: job.status,
+    linesRead: job.linesRead,
+    linesCommitted: job.linesCommitted,
+    accepted: job.acceptedCount,
+    duplicates: job.duplicateCount,
+    rejected: job.rejectedCount,
+    chunks: job.chunkCount,
+    chunksStored: job.chunksStored ?? job.chunkCount,
+    failures: job.failures,
+    lastError: job.lastError,
+    startedAt: job.startedAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+}
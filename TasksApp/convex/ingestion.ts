@@ -0,0 +1,391 @@
+import { MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { scheduleProjection } from "./projections";
+import {
+  getEntityId,
+  isKnownEventType,
+  upcastEvent,
+  validateEvent,
+  ValidationIssue,
+} from "./eventRegistry";
+import { isUndoableEventType, recordUndoActions, UndoGrouping } from "./undo";
+import { checkEventClock, ClockOffsetResult, measureClockOffset, stampEventClock } from "./clock";
+import { MAX_EVENT_PAYLOAD_BYTES } from "./rateLimits";
+import { isValidSequence } from "./sequences";
+import { linkEvent } from "./chain";
+
+/**
+ * Event Ingestion
+ *
+ * This module holds the shared write path for the event log. Every producer
+ * of events (the batch endpoint, server-generated events such as conflict
+ * resolutions) goes through ingestEvents so validation, idempotency and
+ * projection scheduling behave the same everywhere.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EventInput {
+  eventId: string;
+  timestamp: number;
+  eventType: string;
+  schemaVersion: number;
+  payload: any;
+  mediaRefs?: any[];
+
+  // Per-device upload sequence number (see sequences.ts)
+  sequence?: number;
+}
+
+/**
+ * Machine-readable reasons an event was rejected
+ */
+export type EventRejectionReason =
+  | "UNKNOWN_EVENT_TYPE"
+  | "INVALID_PAYLOAD"
+  | "CLOCK_SKEW"
+  | "PAYLOAD_TOO_LARGE"
+  | "INVALID_SEQUENCE"
+  | "BATCH_ABORTED"
+  | "INTERNAL_ERROR";
+
+/**
+ * Outcome of ingesting a single event
+ *
+ * - accepted: stored and scheduled for projection
+ * - duplicate: already stored; the client should drop it
+ * - rejected: not stored; retry only if `retryable` is true
+ */
+export interface EventResult {
+  eventId: string;
+  status: "accepted" | "duplicate" | "rejected";
+  reason?: EventRejectionReason;
+  retryable: boolean;
+  errors?: ValidationIssue[];
+  message?: string;
+
+  // Hybrid logical clock assigned to an accepted event
+  hlc?: string;
+
+  // Whether the event's future timestamp was clamped to server time
+  clamped?: boolean;
+}
+
+export interface IngestArgs {
+  userId: string;
+  deviceId: string;
+  appId: string;
+  events: EventInput[];
+  consentSnapshotId: string;
+
+  // Device clock when the request was sent, used to correct clock skew
+  sentAt?: number;
+
+  // How accepted events are recorded on the undo stack (default per_event)
+  undo?: UndoGrouping;
+
+  // Write all events or none of them
+  atomic?: boolean;
+}
+
+export interface IngestResult {
+  processed: number;
+  failed: number;
+  results: EventResult[];
+
+  // Set when an atomic batch was rejected as a whole
+  aborted?: boolean;
+
+  // Clock offset applied to the batch's timestamps; null if the request had
+  // no sentAt, so timestamps were taken as sent without skew correction
+  clockOffsetMs: number | null;
+}
+
+// ============================================================================
+// Event IDs
+// ============================================================================
+
+/**
+ * Generate a UUID v7 event ID for server-generated events
+ *
+ * The leading 48 bits are the Unix time in milliseconds, so IDs sort by
+ * creation time like client-generated ones.
+ */
+export function generateEventId(now: number = Date.now()): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+
+  // 48-bit big-endian timestamp
+  for (let i = 0; i < 6; i++) {
+    bytes[i] = Math.floor(now / 2 ** (8 * (5 - i))) & 0xff;
+  }
+
+  bytes[6] = (bytes[6] & 0x0f) | 0x70; // version 7
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// ============================================================================
+// Ingestion
+// ============================================================================
+
+/**
+ * Validate, store and schedule projection for a batch of events
+ *
+ * Every event is validated before any is written. In atomic mode a single
+ * rejection aborts the batch: nothing is stored or projected, and the
+ * otherwise valid events are rejected with BATCH_ABORTED. Those are marked
+ * retryable, since only the offending events need fixing or dropping.
+ *
+ * An unexpected error is reported as a retryable INTERNAL_ERROR only if it
+ * happens before the event's first write; later errors fail the mutation.
+ */
+export async function ingestEvents(
+  ctx: MutationCtx,
+  args: IngestArgs
+): Promise<IngestResult> {
+  const serverTimestamp = Date.now();
+  const clockOffset = measureClockOffset(args.sentAt, serverTimestamp);
+
+  const checks = args.events.map((event) => checkEvent(event, clockOffset, serverTimestamp));
+
+  if (args.atomic && checks.some((check) => !check.success)) {
+    const results = checks.map((check, i): EventResult =>
+      check.success
+        ? {
+            eventId: args.events[i].eventId,
+            status: "rejected",
+            reason: "BATCH_ABORTED",
+            retryable: true,
+            message: "Another event in the atomic batch was rejected",
+          }
+        : check.result
+    );
+
+    return {
+      processed: 0,
+      failed: results.length,
+      aborted: true,
+      results,
+      clockOffsetMs: appliedOffset(clockOffset),
+    };
+  }
+
+  const results: EventResult[] = [];
+
+  for (const [i, event] of args.events.entries()) {
+    const check = checks[i];
+    if (!check.success) {
+      results.push(check.result);
+      continue;
+    }
+
+    // Set once the event's clock or chain state has been written
+    let written = false;
+
+    try {
+      // Check for duplicate event ID (idempotency is per user and app)
+      const existing = await ctx.db
+        .query("events")
+        .withIndex("by_user_app_event", (q) =>
+          q.eq("userId", args.userId).eq("appId", args.appId).eq("eventId", event.eventId)
+        )
+        .first();
+
+      // Compaction may have archived it since
+      const stored = existing ?? await ctx.db
+        .query("archivedEvents")
+        .withIndex("by_user_app_event", (q) =>
+          q.eq("userId", args.userId).eq("appId", args.appId).eq("eventId", event.eventId)
+        )
+        .first();
+
+      if (stored) {
+        // Event already stored - the client can safely drop it
+        results.push({ eventId: event.eventId, status: "duplicate", retryable: false });
+        continue;
+      }
+
+      // Stamp the event's hybrid logical clock (the offset was checked above)
+      const clock = await stampEventClock(ctx, {
+        userId: args.userId,
+        deviceId: args.deviceId,
+        clientTimestamp: event.timestamp,
+        offset: clockOffset.success ? clockOffset.offset : 0,
+        measured: clockOffset.success && clockOffset.measured,
+        serverNow: serverTimestamp,
+      });
+
+      if (!clock.success) {
+        throw new Error(clock.message);
+      }
+      written = true;
+
+      // Insert the event, linked into the user's hash chain
+      const content = {
+        eventId: event.eventId,
+        userId: args.userId,
+        deviceId: args.deviceId,
+        appId: args.appId,
+        timestamp: clock.timestamp,
+        clientTimestamp: event.timestamp,
+        hlc: clock.hlc,
+        deviceSequence: event.sequence,
+        serverTimestamp,
+        eventType: event.eventType,
+        schemaVersion: event.schemaVersion,
+        payload: event.payload,
+        mediaRefs: event.mediaRefs,
+        consentSnapshotId: args.consentSnapshotId,
+      };
+      const link = await linkEvent(ctx, args.userId, content);
+
+      const id = await ctx.db.insert("events", {
+        ...content,
+        ...link,
+        entityId: getEntityId(event.eventType, check.payload),
+        processingStatus: "pending",
+      });
+
+      // Project the event in order behind the user's checkpoint
+      await scheduleProjection(ctx, args.userId, {
+        timestamp: clock.timestamp,
+        eventId: event.eventId,
+      });
+
+      // Check if this event should trigger Brain processing
+      await ctx.scheduler.runAfter(0, internal.brainRegistry.checkAndQueueEvent, {
+        eventId: id,
+        eventType: event.eventType,
+        userId: args.userId,
+      });
+
+      results.push({
+        eventId: event.eventId,
+        status: "accepted",
+        retryable: false,
+        hlc: clock.hlc,
+        clamped: clock.clamped || undefined,
+      });
+    } catch (error) {
+      // Failing the mutation rolls back the events already written. Past
+      // the clock stamp it's also the only way to undo this event's device
+      // clock and chain head writes, so the error isn't caught then either.
+      if (args.atomic || written) {
+        throw error;
+      }
+
+      console.error(`Error inserting event ${event.eventId}:`, error);
+      results.push({
+        eventId: event.eventId,
+        status: "rejected",
+        reason: "INTERNAL_ERROR",
+        retryable: true,
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  // Record accepted events on the device's undo stack
+  const undo = args.undo ?? "per_event";
+  if (undo !== "none") {
+    const undoable = args.events
+      .filter((event, i) => results[i].status === "accepted" && isUndoableEventType(event.eventType))
+      .map((event) => event.eventId);
+
+    const actions = undo === "grouped" ? [undoable] : undoable.map((eventId) => [eventId]);
+    await recordUndoActions(ctx, args.userId, args.deviceId, actions);
+  }
+
+  const failed = results.filter((r) => r.status === "rejected").length;
+
+  return {
+    processed: results.length - failed,
+    failed,
+    results,
+    clockOffsetMs: appliedOffset(clockOffset),
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Offset applied to a batch's timestamps, or null if none was measured
+ */
+function appliedOffset(clockOffset: ClockOffsetResult): number | null {
+  return clockOffset.success && clockOffset.measured ? clockOffset.offset : null;
+}
+
+/**
+ * Validate an event without writing anything
+ *
+ * Returns the upcast payload of a valid event, or its rejection.
+ */
+function checkEvent(
+  event: EventInput,
+  clockOffset: ClockOffsetResult,
+  serverTimestamp: number
+): { success: true; payload: unknown } | { success: false; result: EventResult } {
+  const reject = (result: Omit<EventResult, "eventId" | "status" | "retryable">) => ({
+    success: false as const,
+    result: { eventId: event.eventId, status: "rejected" as const, retryable: false, ...result },
+  });
+
+  if (!clockOffset.success) {
+    return reject({ reason: "CLOCK_SKEW", message: clockOffset.message });
+  }
+
+  if (event.sequence !== undefined && !isValidSequence(event.sequence)) {
+    return reject({ reason: "INVALID_SEQUENCE", message: "sequence must be a positive integer" });
+  }
+
+  const payloadBytes = new TextEncoder().encode(JSON.stringify(event.payload ?? null)).length;
+  if (payloadBytes > MAX_EVENT_PAYLOAD_BYTES) {
+    return reject({
+      reason: "PAYLOAD_TOO_LARGE",
+      message: `Payload is ${payloadBytes} bytes; the limit is ${MAX_EVENT_PAYLOAD_BYTES}`,
+    });
+  }
+
+  // Validate event type and payload shape before storing anything
+  if (!isKnownEventType(event.eventType)) {
+    return reject({
+      reason: "UNKNOWN_EVENT_TYPE",
+      errors: validateEvent(event.eventType, event.payload),
+    });
+  }
+
+  // Older clients may send earlier schema versions; validate the current shape
+  let currentPayload: unknown;
+  try {
+    currentPayload = upcastEvent(event).payload;
+  } catch (error) {
+    return reject({
+      reason: "INVALID_PAYLOAD",
+      message: error instanceof Error ? error.message : "Upcast failed",
+    });
+  }
+
+  const errors = validateEvent(event.eventType, currentPayload);
+  if (errors.length > 0) {
+    return reject({ reason: "INVALID_PAYLOAD", errors });
+  }
+
+  const clock = checkEventClock(
+    event.timestamp,
+    clockOffset.offset,
+    clockOffset.measured,
+    serverTimestamp
+  );
+  if (!clock.success) {
+    return reject({ reason: "CLOCK_SKEW", message: clock.message });
+  }
+
+  return { success: true, payload: currentPayload };
+}
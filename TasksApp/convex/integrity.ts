@@ -0,0 +1,566 @@
+import { internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { nextSyncVersion } from "./sync";
+import { getActiveRebuild } from "./rebuild";
+
+/**
+ * Projection Integrity Module
+ *
+ * List and tag projections carry denormalized task counters that the
+ * projector maintains incrementally. Incremental updates can drift (a missed
+ * or double-applied delta is invisible once clamped at zero), so this module
+ * recomputes the counters from tasksProjection, reports any mismatch and can
+ * repair it.
+ *
+ * Counted tasks are the non-tombstoned ones:
+ * - list taskCount / completedTaskCount: tasks in the list / completed ones
+ * - tag taskCount: tasks carrying the tag
+ *
+ * A check runs as a chain of scheduled mutations, one page per run: it
+ * recounts the tasks into integrityCounts, then compares the lists and tags
+ * against those counts. Any other projection write while it runs makes the
+ * counts stale, so the check starts over (and gives up after a few tries).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type CounterDiscrepancy = Doc<"integrityReports">["discrepancies"][number];
+
+type CheckUpdate = Partial<Doc<"integrityChecks">>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Users scheduled for a check per sweep run
+const USERS_PER_SWEEP = 50;
+
+// Rows read per check step
+const CHECK_PAGE_SIZE = 100;
+
+// Discrepancies kept in a report; the rest are only counted
+const MAX_REPORTED_DISCREPANCIES = 100;
+
+// Times a check starts over before giving up
+const MAX_CHECK_RESTARTS = 3;
+
+// A check that hasn't advanced for this long is taken over (1 hour)
+const STALE_CHECK_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Start checking (and optionally repairing) a user's projection counters
+ *
+ * Skipped while a rebuild job owns the user's projections or another check
+ * is running. The result is stored as the user's integrity report when the
+ * check completes.
+ */
+export const checkUserIntegrity = internalMutation({
+  args: {
+    userId: v.string(),
+    repair: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    if (await getActiveRebuild(ctx, args.userId)) {
+      return { skipped: true as const, reason: "REBUILD_IN_PROGRESS" };
+    }
+
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("integrityChecks")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (existing && now - existing.updatedAt < STALE_CHECK_MS) {
+      return { skipped: true as const, reason: "CHECK_IN_PROGRESS" };
+    }
+
+    // Taking over a stale check bumps the token so its chain exits
+    const stepToken = existing ? existing.stepToken + 1 : 0;
+    const check = {
+      userId: args.userId,
+      repair: args.repair ?? false,
+      phase: "resetting" as const,
+      cursor: null,
+      syncVersion: 0,
+      restarts: 0,
+      stepToken,
+      ...emptyResults(),
+      startedAt: now,
+      updatedAt: now,
+    };
+
+    let checkId: Id<"integrityChecks">;
+    if (existing) {
+      await ctx.db.replace(existing._id, check);
+      checkId = existing._id;
+    } else {
+      checkId = await ctx.db.insert("integrityChecks", check);
+    }
+
+    await ctx.scheduler.runAfter(0, internal.integrity.integrityStep, { checkId, stepToken });
+
+    return { skipped: false as const, checkId };
+  },
+});
+
+// ============================================================================
+// Step Runner
+// ============================================================================
+
+/**
+ * Run one page of an integrity check and schedule the next
+ *
+ * Steps from a superseded chain exit without running.
+ */
+export const integrityStep = internalMutation({
+  args: {
+    checkId: v.id("integrityChecks"),
+    stepToken: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const check = await ctx.db.get(args.checkId);
+    if (!check || check.stepToken !== args.stepToken) {
+      return { done: true };
+    }
+
+    let next: CheckUpdate | null;
+
+    if (check.phase !== "cleaning" && (await getActiveRebuild(ctx, check.userId))) {
+      next = abandonCheck("REBUILD_IN_PROGRESS");
+    } else if (
+      check.phase !== "resetting" &&
+      check.phase !== "cleaning" &&
+      (await readSyncVersion(ctx, check.userId)) !== check.syncVersion
+    ) {
+      next = check.restarts < MAX_CHECK_RESTARTS
+        ? { phase: "resetting", cursor: null, restarts: check.restarts + 1, ...emptyResults() }
+        : abandonCheck("PROJECTIONS_CHANGING");
+    } else {
+      switch (check.phase) {
+        case "resetting":
+          next = await resetPage(ctx, check);
+          break;
+
+        case "counting":
+          next = await countPage(ctx, check);
+          break;
+
+        case "lists":
+          next = await compareListPage(ctx, check);
+          break;
+
+        case "tags":
+          next = await compareTagPage(ctx, check);
+          break;
+
+        case "cleaning":
+          next = await cleanPage(ctx, check);
+          break;
+      }
+    }
+
+    if (!next) {
+      return { done: true };
+    }
+
+    await ctx.db.patch(check._id, { ...next, updatedAt: Date.now() });
+    await ctx.scheduler.runAfter(0, internal.integrity.integrityStep, {
+      checkId: check._id,
+      stepToken: check.stepToken,
+    });
+
+    return { done: false };
+  },
+});
+
+/**
+ * Delete the next page of counts left by an earlier run
+ */
+async function resetPage(ctx: MutationCtx, check: Doc<"integrityChecks">): Promise<CheckUpdate> {
+  if (await deleteCountsPage(ctx, check.userId)) {
+    return {};
+  }
+
+  // Counting starts from the user's projections as they are now
+  return { phase: "counting", cursor: null, syncVersion: await readSyncVersion(ctx, check.userId) };
+}
+
+/**
+ * Count the next page of tasks into integrityCounts
+ */
+async function countPage(ctx: MutationCtx, check: Doc<"integrityChecks">): Promise<CheckUpdate> {
+  const page = await ctx.db
+    .query("tasksProjection")
+    .withIndex("by_user_active", (q) =>
+      q.eq("userId", check.userId).eq("tombstoned", false)
+    )
+    .paginate({ numItems: CHECK_PAGE_SIZE, cursor: check.cursor ?? null });
+
+  // Sum the page first so each list and tag is written once
+  const listCounts = new Map<string, { taskCount: number; completedTaskCount: number }>();
+  const tagCounts = new Map<string, number>();
+
+  for (const task of page.page) {
+    const counts = listCounts.get(task.listId) ?? { taskCount: 0, completedTaskCount: 0 };
+    counts.taskCount++;
+    if (task.completed) counts.completedTaskCount++;
+    listCounts.set(task.listId, counts);
+
+    for (const tagId of new Set(task.tags)) {
+      tagCounts.set(tagId, (tagCounts.get(tagId) ?? 0) + 1);
+    }
+  }
+
+  for (const [listId, counts] of listCounts) {
+    await addCounts(ctx, check.userId, "list", listId, counts);
+  }
+
+  for (const [tagId, taskCount] of tagCounts) {
+    await addCounts(ctx, check.userId, "tag", tagId, { taskCount, completedTaskCount: 0 });
+  }
+
+  const tasksScanned = check.tasksScanned + page.page.length;
+
+  if (!page.isDone) {
+    return { cursor: page.continueCursor, tasksScanned };
+  }
+
+  return { phase: "lists", cursor: null, tasksScanned };
+}
+
+/**
+ * Compare (and optionally repair) the next page of list counters
+ */
+async function compareListPage(
+  ctx: MutationCtx,
+  check: Doc<"integrityChecks">
+): Promise<CheckUpdate> {
+  const page = await ctx.db
+    .query("taskListsProjection")
+    .withIndex("by_user", (q) => q.eq("userId", check.userId))
+    .paginate({ numItems: CHECK_PAGE_SIZE, cursor: check.cursor ?? null });
+
+  const found: CounterDiscrepancy[] = [];
+  let syncVersion = check.syncVersion;
+
+  for (const list of page.page) {
+    const expected = await getCounts(ctx, check.userId, "list", list.listId);
+    const listDiscrepancies: CounterDiscrepancy[] = [];
+
+    if (list.taskCount !== expected.taskCount) {
+      listDiscrepancies.push({
+        entityType: "list",
+        entityId: list.listId,
+        field: "taskCount",
+        expected: expected.taskCount,
+        actual: list.taskCount ?? null,
+      });
+    }
+
+    if (list.completedTaskCount !== expected.completedTaskCount) {
+      listDiscrepancies.push({
+        entityType: "list",
+        entityId: list.listId,
+        field: "completedTaskCount",
+        expected: expected.completedTaskCount,
+        actual: list.completedTaskCount ?? null,
+      });
+    }
+
+    if (check.repair && listDiscrepancies.length > 0) {
+      // The check's own repairs don't count as concurrent writes
+      syncVersion = await nextSyncVersion(ctx, check.userId);
+      await ctx.db.patch(list._id, {
+        taskCount: expected.taskCount,
+        completedTaskCount: expected.completedTaskCount,
+        syncVersion,
+      });
+    }
+
+    found.push(...listDiscrepancies);
+  }
+
+  const update: CheckUpdate = {
+    ...appendDiscrepancies(check, found),
+    listsChecked: check.listsChecked + page.page.length,
+    syncVersion,
+  };
+
+  if (!page.isDone) {
+    return { ...update, cursor: page.continueCursor };
+  }
+
+  return { ...update, phase: "tags", cursor: null };
+}
+
+/**
+ * Compare (and optionally repair) the next page of tag counters
+ */
+async function compareTagPage(
+  ctx: MutationCtx,
+  check: Doc<"integrityChecks">
+): Promise<CheckUpdate> {
+  const page = await ctx.db
+    .query("tagsProjection")
+    .withIndex("by_user", (q) => q.eq("userId", check.userId))
+    .paginate({ numItems: CHECK_PAGE_SIZE, cursor: check.cursor ?? null });
+
+  const found: CounterDiscrepancy[] = [];
+  let syncVersion = check.syncVersion;
+
+  for (const tag of page.page) {
+    const expected = (await getCounts(ctx, check.userId, "tag", tag.tagId)).taskCount;
+    if (tag.taskCount === expected) {
+      continue;
+    }
+
+    found.push({
+      entityType: "tag",
+      entityId: tag.tagId,
+      field: "taskCount",
+      expected,
+      actual: tag.taskCount ?? null,
+    });
+
+    if (check.repair) {
+      syncVersion = await nextSyncVersion(ctx, check.userId);
+      await ctx.db.patch(tag._id, { taskCount: expected, syncVersion });
+    }
+  }
+
+  const update: CheckUpdate = {
+    ...appendDiscrepancies(check, found),
+    tagsChecked: check.tagsChecked + page.page.length,
+    syncVersion,
+  };
+
+  if (!page.isDone) {
+    return { ...update, cursor: page.continueCursor };
+  }
+
+  return { ...update, phase: "cleaning", cursor: null };
+}
+
+/**
+ * Delete the next page of counts, then store the report and end the check
+ */
+async function cleanPage(
+  ctx: MutationCtx,
+  check: Doc<"integrityChecks">
+): Promise<CheckUpdate | null> {
+  if (await deleteCountsPage(ctx, check.userId)) {
+    return {};
+  }
+
+  await ctx.db.delete(check._id);
+
+  if (check.abandonReason) {
+    console.warn(`Integrity check for user ${check.userId} gave up: ${check.abandonReason}`);
+    return null;
+  }
+
+  const report = {
+    userId: check.userId,
+    discrepancies: check.discrepancies,
+    discrepancyCount: check.discrepancyCount,
+    repaired: check.repair && check.discrepancyCount > 0,
+    listsChecked: check.listsChecked,
+    tagsChecked: check.tagsChecked,
+    tasksScanned: check.tasksScanned,
+    checkedAt: Date.now(),
+  };
+
+  const existing = await ctx.db
+    .query("integrityReports")
+    .withIndex("by_user", (q) => q.eq("userId", check.userId))
+    .first();
+
+  if (existing) {
+    await ctx.db.replace(existing._id, report);
+  } else {
+    await ctx.db.insert("integrityReports", report);
+  }
+
+  if (check.discrepancyCount > 0) {
+    console.warn(
+      `Projection counters drifted for user ${check.userId}: ${check.discrepancyCount} discrepancies` +
+        (check.repair ? " (repaired)" : "")
+    );
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Sweep
+// ============================================================================
+
+/**
+ * Check every user's projection counters
+ *
+ * Walks the per-user sync counters (one per user with projections) a page
+ * at a time, scheduling a check per user, then reschedules itself with the
+ * next page. Run periodically from crons.ts.
+ */
+export const checkAllUsers = internalMutation({
+  args: {
+    repair: v.optional(v.boolean()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("syncCounters")
+      .paginate({ numItems: USERS_PER_SWEEP, cursor: args.cursor ?? null });
+
+    let scheduled = 0;
+    for (const counter of page.page) {
+      // Shadow users of a fresh rebuild or a compaction aren't real accounts
+      if (counter.userId.startsWith("rebuild:") || counter.userId.startsWith("compaction:")) {
+        continue;
+      }
+
+      await ctx.scheduler.runAfter(0, internal.integrity.checkUserIntegrity, {
+        userId: counter.userId,
+        repair: args.repair,
+      });
+      scheduled++;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.integrity.checkAllUsers, {
+        repair: args.repair,
+        cursor: page.continueCursor,
+      });
+    }
+
+    return { scheduled, hasMore: !page.isDone };
+  },
+});
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * Get the latest integrity report for a user
+ */
+export const getIntegrityReport = internalQuery({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return ctx.db
+      .query("integrityReports")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+  },
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function emptyResults() {
+  return {
+    discrepancies: [],
+    discrepancyCount: 0,
+    listsChecked: 0,
+    tagsChecked: 0,
+    tasksScanned: 0,
+  };
+}
+
+/**
+ * Stop a check without a report; its counts are still cleaned up
+ */
+function abandonCheck(reason: string): CheckUpdate {
+  return { phase: "cleaning", cursor: null, abandonReason: reason };
+}
+
+/**
+ * Add discrepancies to a check, keeping only the first ones
+ */
+function appendDiscrepancies(
+  check: Doc<"integrityChecks">,
+  found: CounterDiscrepancy[]
+): CheckUpdate {
+  const room = MAX_REPORTED_DISCREPANCIES - check.discrepancies.length;
+
+  return {
+    discrepancies: [...check.discrepancies, ...found.slice(0, Math.max(room, 0))],
+    discrepancyCount: check.discrepancyCount + found.length,
+  };
+}
+
+async function readSyncVersion(ctx: MutationCtx, userId: string): Promise<number> {
+  const counter = await ctx.db
+    .query("syncCounters")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+
+  return counter?.version ?? 0;
+}
+
+async function getCounts(
+  ctx: MutationCtx,
+  userId: string,
+  entityType: "list" | "tag",
+  entityId: string
+): Promise<{ taskCount: number; completedTaskCount: number }> {
+  const row = await ctx.db
+    .query("integrityCounts")
+    .withIndex("by_user_entity", (q) =>
+      q.eq("userId", userId).eq("entityType", entityType).eq("entityId", entityId)
+    )
+    .first();
+
+  return row ?? { taskCount: 0, completedTaskCount: 0 };
+}
+
+async function addCounts(
+  ctx: MutationCtx,
+  userId: string,
+  entityType: "list" | "tag",
+  entityId: string,
+  counts: { taskCount: number; completedTaskCount: number }
+): Promise<void> {
+  const row = await ctx.db
+    .query("integrityCounts")
+    .withIndex("by_user_entity", (q) =>
+      q.eq("userId", userId).eq("entityType", entityType).eq("entityId", entityId)
+    )
+    .first();
+
+  if (row) {
+    await ctx.db.patch(row._id, {
+      taskCount: row.taskCount + counts.taskCount,
+      completedTaskCount: row.completedTaskCount + counts.completedTaskCount,
+    });
+  } else {
+    await ctx.db.insert("integrityCounts", { userId, entityType, entityId, ...counts });
+  }
+}
+
+/**
+ * Delete a page of a user's counts, returning whether more may remain
+ */
+async function deleteCountsPage(ctx: MutationCtx, userId: string): Promise<boolean> {
+  const rows = await ctx.db
+    .query("integrityCounts")
+    .withIndex("by_user_entity", (q) => q.eq("userId", userId))
+    .take(CHECK_PAGE_SIZE);
+
+  for (const row of rows) {
+    await ctx.db.delete(row._id);
+  }
+
+  return rows.length === CHECK_PAGE_SIZE;
+}
@@ -0,0 +1,122 @@
+import { DocumentByInfo, GenericTableInfo, OrderedQuery } from "convex/server";
+import { Infer, v } from "convex/values";
+
+/**
+ * Index Pagination Module
+ *
+ * Task queries page through compound indexes with Convex's native
+ * pagination. A page cursor is a position in the index rather than the ID
+ * of the last task returned, so moving or deleting that task doesn't send
+ * the next request back to page one.
+ *
+ * Some views read more than one index range in turn (e.g. dated tasks, then
+ * undated ones). Each range is a phase; the cursor records the phase and
+ * the Convex cursor within it. A page never spans two phases, so a page can
+ * be short while more results follow. Clients page until `nextCursor` is
+ * absent.
+ *
+ * Cursors are bound to the query they came from (list, view, filters);
+ * passing one to another query is rejected as invalid.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const pagePositionValidator = v.object({
+  phase: v.number(),
+  position: v.union(v.string(), v.null()),
+});
+
+export type PagePosition = Infer<typeof pagePositionValidator>;
+
+interface PageCursor extends PagePosition {
+  // Query the cursor was issued for
+  scope: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Largest page a client may request
+export const MAX_PAGE_SIZE = 200;
+
+// ============================================================================
+// Cursor Encoding
+// ============================================================================
+
+/**
+ * Encode a page position for the given query as an opaque string
+ */
+export function encodePageCursor(scope: string, position: PagePosition): string {
+  const cursor: PageCursor = { scope, ...position };
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Decode an opaque cursor, returning null if it is malformed or was issued
+ * for another query
+ */
+export function decodePageCursor(cursor: string, scope: string): PagePosition | null {
+  try {
+    const bytes = Uint8Array.from(atob(cursor), (c) => c.charCodeAt(0));
+    const decoded = JSON.parse(new TextDecoder().decode(bytes));
+    if (
+      decoded?.scope !== scope ||
+      !Number.isInteger(decoded.phase) ||
+      decoded.phase < 0 ||
+      (typeof decoded.position !== "string" && decoded.position !== null)
+    ) {
+      return null;
+    }
+    return { phase: decoded.phase, position: decoded.position };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a `limit` query parameter, clamped to 1..max (default MAX_PAGE_SIZE)
+ */
+export function parsePageSize(
+  param: string | null,
+  fallback: number,
+  max: number = MAX_PAGE_SIZE
+): number {
+  const limit = param === null ? fallback : parseInt(param, 10);
+  return Number.isNaN(limit) ? fallback : Math.min(Math.max(limit, 1), max);
+}
+
+// ============================================================================
+// Pagination
+// ============================================================================
+
+/**
+ * Load the page at `cursor` from a sequence of index ranges
+ *
+ * Convex allows one paginate call per query function, so only the cursor's
+ * phase is read. When it is exhausted, the next cursor starts the next phase.
+ */
+export async function paginatePhases<TableInfo extends GenericTableInfo>(
+  phases: (() => OrderedQuery<TableInfo>)[],
+  cursor: PagePosition | undefined,
+  numItems: number
+): Promise<{ page: DocumentByInfo<TableInfo>[]; nextCursor: PagePosition | null }> {
+  const phase = cursor?.phase ?? 0;
+  if (phase >= phases.length) {
+    return { page: [], nextCursor: null };
+  }
+
+  const result = await phases[phase]().paginate({ numItems, cursor: cursor?.position ?? null });
+
+  if (!result.isDone) {
+    return { page: result.page, nextCursor: { phase, position: result.continueCursor } };
+  }
+
+  return {
+    page: result.page,
+    nextCursor: phase + 1 < phases.length ? { phase: phase + 1, position: null } : null,
+  };
+}
@@ -0,0 +1,77 @@
+import { internalMutation, internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "./dueDates";
+
+/**
+ * User Profile Module
+ *
+ * Stores per-user settings the server needs to answer requests, currently
+ * the time zone that Today and Scheduled views are computed in. Users
+ * without a profile get UTC.
+ */
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * Get a user's profile, with defaults if they haven't set one
+ */
+export const getProfile = internalQuery({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const profile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+
+    return {
+      timeZone: profile?.timeZone ?? DEFAULT_TIME_ZONE,
+      updatedAt: profile?.updatedAt ?? null,
+    };
+  },
+});
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Set a user's time zone
+ */
+export const setTimeZone = internalMutation({
+  args: {
+    userId: v.string(),
+    timeZone: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (!isValidTimeZone(args.timeZone)) {
+      return {
+        success: false as const,
+        code: "INVALID_TIME_ZONE",
+        error: `Unknown time zone: ${args.timeZone}`,
+      };
+    }
+
+    const now = Date.now();
+    const profile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (profile) {
+      await ctx.db.patch(profile._id, { timeZone: args.timeZone, updatedAt: now });
+    } else {
+      await ctx.db.insert("userProfiles", {
+        userId: args.userId,
+        timeZone: args.timeZone,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    return { success: true as const, timeZone: args.timeZone, updatedAt: now };
+  },
+});
@@ -1,6 +1,12 @@
 import { internalMutation, internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
 import { Doc, Id } from "./_generated/dataModel";
+import { nextSyncVersion } from "./sync";
+import { legacyHlc } from "./clock";
+import { getEntityId, upcastEvent } from "./eventRegistry";
+import { internal } from "./_generated/api";
+import { ConflictEntityType, ConflictType, recordConflict } from "./conflicts";
+import { getActiveRebuild } from "./rebuild";
 
 /**
  * Event Projector Logic
@@ -11,15 +17,27 @@ import { Doc, Id } from "./_generated/dataModel";
  *
  * Event Types Supported:
  * - tasks.list.created / updated / deleted
- * - tasks.task.created / updated / deleted / completed / uncompleted
+ * - tasks.task.created / updated / deleted / restored / completed / uncompleted
+ *   / moved / reordered / flagged / unflagged
  * - tasks.tag.created / updated / deleted
+ *
+ * Newly ingested events are projected per user in (timestamp, eventId) order
+ * through a checkpoint, so an update can't be applied before its create.
+ * Projections merge writes per field (last writer wins per field, ordered by
+ * the hybrid logical clock stamped at ingestion, see clock.ts), so
+ * concurrent edits to different fields of the same row are all kept.
+ * Edits the merge discards are recorded as conflicts (see conflicts.ts).
+ * Deleting a list tombstones its tasks; deleting a tag removes it from
+ * every task, found through the taskTags index. List and tag task counts
+ * are kept in step with task writes.
+ * Full replays run as paged rebuild jobs (see rebuild.ts).
  */
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface TaskEvent {
+export interface TaskEvent {
   _id: Id<"events">;
   eventId: string;
   userId: string;
@@ -33,6 +51,10 @@ interface TaskEvent {
   mediaRefs?: any[];
   consentSnapshotId: string;
   processingStatus?: string;
+  clientTimestamp?: number;
+  hlc?: string;
+  entityId?: string;
+  projectedAt?: number;
 }
 
 interface ListPayload {
@@ -96,14 +118,8 @@ export const processEvent = internalMutation({
 
     const eventType = event.eventType;
 
-    // Route to appropriate handler
-    if (eventType.startsWith("tasks.list.")) {
-      await processListEvent(ctx, event as TaskEvent);
-    } else if (eventType.startsWith("tasks.task.")) {
-      await processTaskEvent(ctx, event as TaskEvent);
-    } else if (eventType.startsWith("tasks.tag.")) {
-      await processTagEvent(ctx, event as TaskEvent);
-    } else {
+    const projected = await projectEvent(ctx, event as TaskEvent);
+    if (!projected) {
       // Unknown event type - log but don't fail
       console.warn(`Unknown event type: ${eventType}`);
     }
@@ -132,15 +148,7 @@ export const processEventBatch = internalMutation({
           continue;
         }
 
-        const eventType = event.eventType;
-
-        if (eventType.startsWith("tasks.list.")) {
-          await processListEvent(ctx, event as TaskEvent);
-        } else if (eventType.startsWith("tasks.task.")) {
-          await processTaskEvent(ctx, event as TaskEvent);
-        } else if (eventType.startsWith("tasks.tag.")) {
-          await processTagEvent(ctx, event as TaskEvent);
-        }
+        await projectEvent(ctx, event as TaskEvent);
 
         results.push({ eventId, processed: true });
       } catch (error) {
@@ -157,10 +165,414 @@ export const processEventBatch = internalMutation({
   },
 });
 
+/**
+ * Upcast an event to the current payload schema and route it to its handler
+ *
+ * Returns false if no projection handles the event type.
+ */
+export async function projectEvent(ctx: MutationCtx, event: TaskEvent): Promise<boolean> {
+  const current = upcastEvent(event);
+  const eventType = current.eventType;
+
+  if (eventType.startsWith("tasks.list.")) {
+    await processListEvent(ctx, current);
+  } else if (eventType.startsWith("tasks.task.")) {
+    await processTaskEvent(ctx, current);
+  } else if (eventType.startsWith("tasks.tag.")) {
+    await processTagEvent(ctx, current);
+  } else {
+    return false;
+  }
+
+  // Mark first projection so replays (rewinds, rebuilds) can be told apart
+  if (event.projectedAt === undefined) {
+    await ctx.db.patch(event._id, { projectedAt: Date.now() });
+  }
+
+  // Backfill the target entity on events stored before it was recorded
+  const entityId = event.entityId ?? getEntityId(eventType, current.payload);
+  if (event.entityId === undefined && entityId !== undefined) {
+    await ctx.db.patch(event._id, { entityId });
+  }
+
+  return true;
+}
+
+// ============================================================================
+// Ordered Projection Processing
+// ============================================================================
+
+// Maximum events projected per drain run
+const PROJECTION_BATCH_SIZE = 100;
+
+// Attempts before an event is skipped and recorded as failed
+const MAX_PROJECTION_RETRIES = 5;
+
+// Base delay for retry backoff (ms)
+const PROJECTION_RETRY_DELAY_MS = 1000;
+
+// Number of skipped event IDs kept on the checkpoint
+const MAX_FAILED_EVENT_IDS = 100;
+
+// A scheduled drain that hasn't touched its checkpoint for this long is
+// presumed dead (its mutation failed) and is scheduled again
+const STALLED_DRAIN_MS = 10 * 60 * 1000;
+
+// Checkpoints checked per stalled drain sweep
+const STALLED_DRAIN_SWEEP_LIMIT = 100;
+
+// Tasks checked per taskTags backfill run
+const BACKFILL_PAGE_SIZE = 100;
+
+interface EventPosition {
+  timestamp: number;
+  eventId: string;
+}
+
+/**
+ * Schedule ordered projection of a newly stored event
+ *
+ * Creates the user's checkpoint if needed and rewinds it when the event sorts
+ * before the current position (e.g. a late upload from an offline device).
+ * Projection handlers are idempotent, so re-walking already projected events
+ * after a rewind is safe. A drain marked scheduled whose checkpoint has gone
+ * stale is scheduled again.
+ */
+export async function scheduleProjection(
+  ctx: MutationCtx,
+  userId: string,
+  position: EventPosition
+): Promise<void> {
+  const now = Date.now();
+  const checkpoint = await ctx.db
+    .query("projectionCheckpoints")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+
+  if (!checkpoint) {
+    await ctx.db.insert("projectionCheckpoints", {
+      userId,
+      lastTimestamp: position.timestamp,
+      lastEventId: "",
+      drainScheduled: true,
+      retryCount: 0,
+      failedEventIds: [],
+      processedCount: 0,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.projections.drainProjections, { userId });
+    return;
+  }
+
+  const updates: Partial<Doc<"projectionCheckpoints">> = {};
+
+  if (comparePositions(position, checkpoint) <= 0) {
+    // Rewind to just before this event; "" sorts before any eventId
+    updates.lastTimestamp = position.timestamp;
+    updates.lastEventId = "";
+  }
+
+  if (!checkpoint.drainScheduled || isDrainStalled(checkpoint, now)) {
+    updates.drainScheduled = true;
+    await ctx.scheduler.runAfter(0, internal.projections.drainProjections, { userId });
+  }
+
+  if (Object.keys(updates).length > 0) {
+    await ctx.db.patch(checkpoint._id, { ...updates, updatedAt: now });
+  }
+}
+
+/**
+ * Project a user's pending events in (timestamp, eventId) order
+ *
+ * Advances the checkpoint after each event. Each event is projected in a
+ * sub-transaction, so a failing event leaves no partial writes behind. On
+ * failure the checkpoint stays on the failing event and the run is retried
+ * with backoff; after MAX_PROJECTION_RETRIES attempts the event is skipped
+ * and recorded. Paused while a rebuild job is running for the user.
+ */
+export const drainProjections = internalMutation({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const checkpoint = await ctx.db
+      .query("projectionCheckpoints")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (!checkpoint) {
+      return { processed: 0, hasMore: false };
+    }
+
+    // A rebuild owns the user's projections; it resumes draining when done
+    if (await getActiveRebuild(ctx, args.userId)) {
+      await ctx.db.patch(checkpoint._id, { drainScheduled: false, updatedAt: Date.now() });
+      return { processed: 0, hasMore: false };
+    }
+
+    const events = await fetchEventsAfter(
+      ctx,
+      args.userId,
+      checkpoint,
+      PROJECTION_BATCH_SIZE + 1
+    );
+
+    let lastTimestamp = checkpoint.lastTimestamp;
+    let lastEventId = checkpoint.lastEventId;
+    let retryCount = checkpoint.retryCount;
+    let lastError = checkpoint.lastError;
+    let failedEventIds = checkpoint.failedEventIds;
+    let processed = 0;
+    let blocked = false;
+
+    for (const event of events.slice(0, PROJECTION_BATCH_SIZE)) {
+      try {
+        await ctx.runMutation(internal.projections.projectStoredEvent, { eventId: event._id });
+        retryCount = 0;
+        lastError = undefined;
+        processed++;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : "Unknown error";
+
+        if (retryCount + 1 < MAX_PROJECTION_RETRIES) {
+          retryCount++;
+          blocked = true;
+          break;
+        }
+
+        console.error(`Skipping event ${event.eventId} after ${MAX_PROJECTION_RETRIES} attempts:`, error);
+        failedEventIds = [...failedEventIds, event.eventId].slice(-MAX_FAILED_EVENT_IDS);
+        retryCount = 0;
+      }
+
+      lastTimestamp = event.timestamp;
+      lastEventId = event.eventId;
+    }
+
+    const hasMore = blocked || events.length > PROJECTION_BATCH_SIZE;
+
+    await ctx.db.patch(checkpoint._id, {
+      lastTimestamp,
+      lastEventId,
+      retryCount,
+      lastError,
+      failedEventIds,
+      processedCount: checkpoint.processedCount + processed,
+      drainScheduled: hasMore,
+      updatedAt: Date.now(),
+    });
+
+    if (hasMore) {
+      const delay = blocked ? PROJECTION_RETRY_DELAY_MS * 2 ** (retryCount - 1) : 0;
+      await ctx.scheduler.runAfter(delay, internal.projections.drainProjections, {
+        userId: args.userId,
+      });
+    }
+
+    return { processed, hasMore };
+  },
+});
+
+/**
+ * Project one stored event
+ *
+ * Run by drainProjections as a sub-transaction, so an event that throws
+ * part way through has all of its writes rolled back.
+ */
+export const projectStoredEvent = internalMutation({
+  args: {
+    eventId: v.id("events"),
+  },
+  handler: async (ctx, args) => {
+    const event = await ctx.db.get(args.eventId);
+    if (event) {
+      await projectEvent(ctx, event as TaskEvent);
+    }
+  },
+});
+
+/**
+ * Reschedule drains that died without clearing drainScheduled
+ *
+ * A drain mutation that throws (rather than recording a projection failure)
+ * rolls back, leaving the flag set with nothing scheduled. Run by cron for
+ * users who send no further events.
+ */
+export const recoverStalledDrains = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const stalled = await ctx.db
+      .query("projectionCheckpoints")
+      .withIndex("by_drain_updated", (q) =>
+        q.eq("drainScheduled", true).lt("updatedAt", now - STALLED_DRAIN_MS)
+      )
+      .take(STALLED_DRAIN_SWEEP_LIMIT);
+
+    for (const checkpoint of stalled) {
+      console.warn(`Rescheduling stalled projection drain for user ${checkpoint.userId}`);
+      await ctx.db.patch(checkpoint._id, { updatedAt: now });
+      await ctx.scheduler.runAfter(0, internal.projections.drainProjections, {
+        userId: checkpoint.userId,
+      });
+    }
+
+    return { rescheduled: stalled.length };
+  },
+});
+
+/**
+ * Continue removing a deleted tag from the tasks carrying it
+ */
+export const stripDeletedTag = internalMutation({
+  args: {
+    userId: v.string(),
+    tagId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const tag = await ctx.db
+      .query("tagsProjection")
+      .withIndex("by_user_tag", (q) => q.eq("userId", args.userId).eq("tagId", args.tagId))
+      .first();
+
+    if (tag?.tombstoned) {
+      await stripTagFromTasks(ctx, args.userId, args.tagId);
+    }
+  },
+});
+
+/**
+ * Create taskTags rows for tasks written before the table existed
+ *
+ * Pages through tasksProjection, scheduling itself until done. Run once
+ * after deploying (`npx convex run projections:backfillTaskTags`).
+ */
+export const backfillTaskTags = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("tasksProjection")
+      .paginate({ numItems: BACKFILL_PAGE_SIZE, cursor: args.cursor ?? null });
+
+    for (const task of page.page) {
+      await syncTaskTags(ctx, task.userId, task.taskId, task.tags);
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.projections.backfillTaskTags, {
+        cursor: page.continueCursor,
+      });
+    }
+
+    return { synced: page.page.length, hasMore: !page.isDone };
+  },
+});
+
+/**
+ * Get projection progress and lag for a user
+ */
+export const getProjectionStatus = internalQuery({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const checkpoint = await ctx.db
+      .query("projectionCheckpoints")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (!checkpoint) {
+      return null;
+    }
+
+    // Bounded scan: pendingCount saturates at the limit
+    const pending = await fetchEventsAfter(ctx, args.userId, checkpoint, 1000);
+    const oldestPending = pending.reduce<number | undefined>(
+      (oldest, e) => (oldest === undefined ? e.serverTimestamp : Math.min(oldest, e.serverTimestamp)),
+      undefined
+    );
+
+    return {
+      lastTimestamp: checkpoint.lastTimestamp,
+      lastEventId: checkpoint.lastEventId,
+      processedCount: checkpoint.processedCount,
+      pendingCount: pending.length,
+      lagMs: oldestPending !== undefined ? Date.now() - oldestPending : 0,
+      retryCount: checkpoint.retryCount,
+      lastError: checkpoint.lastError,
+      failedEventIds: checkpoint.failedEventIds,
+    };
+  },
+});
+
+/**
+ * Fetch a user's events strictly after a position, in (timestamp, eventId) order
+ */
+export async function fetchEventsAfter(
+  ctx: QueryCtx,
+  userId: string,
+  position: { lastTimestamp: number; lastEventId: string },
+  limit: number
+): Promise<Doc<"events">[]> {
+  const sameTimestamp = await ctx.db
+    .query("events")
+    .withIndex("by_user_timestamp_event", (q) =>
+      q
+        .eq("userId", userId)
+        .eq("timestamp", position.lastTimestamp)
+        .gt("eventId", position.lastEventId)
+    )
+    .take(limit);
+
+  if (sameTimestamp.length >= limit) {
+    return sameTimestamp;
+  }
+
+  const later = await ctx.db
+    .query("events")
+    .withIndex("by_user_timestamp_event", (q) =>
+      q.eq("userId", userId).gt("timestamp", position.lastTimestamp)
+    )
+    .take(limit - sameTimestamp.length);
+
+  return [...sameTimestamp, ...later];
+}
+
+function comparePositions(
+  position: EventPosition,
+  checkpoint: { lastTimestamp: number; lastEventId: string }
+): number {
+  if (position.timestamp !== checkpoint.lastTimestamp) {
+    return position.timestamp - checkpoint.lastTimestamp;
+  }
+  // Plain comparison matches index (byte) order, unlike localeCompare
+  if (position.eventId === checkpoint.lastEventId) return 0;
+  return position.eventId < checkpoint.lastEventId ? -1 : 1;
+}
+
+function isDrainStalled(checkpoint: Doc<"projectionCheckpoints">, now: number): boolean {
+  return checkpoint.drainScheduled && now - checkpoint.updatedAt > STALLED_DRAIN_MS;
+}
+
 // ============================================================================
 // List Event Handlers
 // ============================================================================
 
+// List fields merged independently by last-writer-wins
+const LIST_MERGE_FIELDS = [
+  "name",
+  "color",
+  "icon",
+  "sortOrder",
+  "smartList",
+  "smartListType",
+  "tombstoned",
+  "tombstonedAt",
+] as const;
+
 async function processListEvent(ctx: MutationCtx, event: TaskEvent): Promise<void> {
   const payload = event.payload as ListPayload;
   const eventType = event.eventType;
@@ -195,23 +607,14 @@ async function createListProjection(
   // Check if list already exists (idempotency)
   const existing = await ctx.db
     .query("taskListsProjection")
-    .withIndex("by_list_id", (q) => q.eq("listId", payload.listId))
+    .withIndex("by_user_list_id", (q) =>
+      q.eq("userId", event.userId).eq("listId", payload.listId)
+    )
     .first();
 
   if (existing) {
-    // List already exists - update if this event is newer
-    if (event.timestamp > existing.updatedAt) {
-      await ctx.db.patch(existing._id, {
-        name: payload.name ?? existing.name,
-        color: payload.color ?? existing.color,
-        icon: payload.icon ?? existing.icon,
-        sortOrder: payload.sortOrder ?? existing.sortOrder,
-        smartList: payload.smartList ?? existing.smartList,
-        smartListType: payload.smartListType ?? existing.smartListType,
-        updatedAt: event.timestamp,
-        lastEventId: event.eventId,
-      });
-    }
+    // List already exists - merge any fields this event wins
+    await applyListUpdates(ctx, existing, event, listUpdatesFromPayload(payload));
     return;
   }
 
@@ -230,7 +633,9 @@ async function createListProjection(
     smartListType: payload.smartListType,
     taskCount: 0,
     completedTaskCount: 0,
+    fieldClocks: initialFieldClocks(LIST_MERGE_FIELDS, event),
     lastEventId: event.eventId,
+    syncVersion: await nextSyncVersion(ctx, event.userId),
   });
 }
 
@@ -241,7 +646,9 @@ async function updateListProjection(
 ): Promise<void> {
   const existing = await ctx.db
     .query("taskListsProjection")
-    .withIndex("by_list_id", (q) => q.eq("listId", payload.listId))
+    .withIndex("by_user_list_id", (q) =>
+      q.eq("userId", event.userId).eq("listId", payload.listId)
+    )
     .first();
 
   if (!existing) {
@@ -250,24 +657,7 @@ async function updateListProjection(
     return;
   }
 
-  // Only update if this event is newer
-  if (event.timestamp <= existing.updatedAt) {
-    return;
-  }
-
-  const updates: Partial<Doc<"taskListsProjection">> = {
-    updatedAt: event.timestamp,
-    lastEventId: event.eventId,
-  };
-
-  if (payload.name !== undefined) updates.name = payload.name;
-  if (payload.color !== undefined) updates.color = payload.color;
-  if (payload.icon !== undefined) updates.icon = payload.icon;
-  if (payload.sortOrder !== undefined) updates.sortOrder = payload.sortOrder;
-  if (payload.smartList !== undefined) updates.smartList = payload.smartList;
-  if (payload.smartListType !== undefined) updates.smartListType = payload.smartListType;
-
-  await ctx.db.patch(existing._id, updates);
+  await applyListUpdates(ctx, existing, event, listUpdatesFromPayload(payload));
 }
 
 async function deleteListProjection(
@@ -277,39 +667,38 @@ async function deleteListProjection(
 ): Promise<void> {
   const existing = await ctx.db
     .query("taskListsProjection")
-    .withIndex("by_list_id", (q) => q.eq("listId", payload.listId))
+    .withIndex("by_user_list_id", (q) =>
+      q.eq("userId", event.userId).eq("listId", payload.listId)
+    )
     .first();
 
   if (!existing) {
     return; // Nothing to delete
   }
 
-  // Only update if this event is newer
-  if (event.timestamp <= existing.updatedAt) {
-    return;
-  }
-
-  // Soft delete (tombstone)
-  await ctx.db.patch(existing._id, {
+  // Soft delete (tombstone) if no later write to the tombstone exists
+  const applied = await applyListUpdates(ctx, existing, event, {
     tombstoned: true,
     tombstonedAt: event.timestamp,
-    updatedAt: event.timestamp,
-    lastEventId: event.eventId,
   });
 
+  if (!applied.includes("tombstoned")) {
+    return;
+  }
+
   // Also tombstone all tasks in this list
   const tasks = await ctx.db
     .query("tasksProjection")
-    .withIndex("by_list", (q) => q.eq("listId", payload.listId))
+    .withIndex("by_user_list", (q) =>
+      q.eq("userId", event.userId).eq("listId", payload.listId)
+    )
     .collect();
 
   for (const task of tasks) {
     if (!task.tombstoned) {
-      await ctx.db.patch(task._id, {
+      await applyTaskUpdates(ctx, task, event, {
         tombstoned: true,
         tombstonedAt: event.timestamp,
-        updatedAt: event.timestamp,
-        lastEventId: event.eventId,
       });
     }
   }
@@ -322,26 +711,84 @@ async function reorderListProjection(
 ): Promise<void> {
   const existing = await ctx.db
     .query("taskListsProjection")
-    .withIndex("by_list_id", (q) => q.eq("listId", payload.listId))
+    .withIndex("by_user_list_id", (q) =>
+      q.eq("userId", event.userId).eq("listId", payload.listId)
+    )
     .first();
 
-  if (!existing || event.timestamp <= existing.updatedAt) {
+  if (!existing || payload.sortOrder === undefined) {
     return;
   }
 
-  if (payload.sortOrder !== undefined) {
-    await ctx.db.patch(existing._id, {
-      sortOrder: payload.sortOrder,
-      updatedAt: event.timestamp,
-      lastEventId: event.eventId,
-    });
+  await applyListUpdates(ctx, existing, event, { sortOrder: payload.sortOrder });
+}
+
+function listUpdatesFromPayload(payload: ListPayload): Partial<Doc<"taskListsProjection">> {
+  const updates: Partial<Doc<"taskListsProjection">> = {};
+
+  if (payload.name !== undefined) updates.name = payload.name;
+  if (payload.color !== undefined) updates.color = payload.color;
+  if (payload.icon !== undefined) updates.icon = payload.icon;
+  if (payload.sortOrder !== undefined) updates.sortOrder = payload.sortOrder;
+  if (payload.smartList !== undefined) updates.smartList = payload.smartList;
+  if (payload.smartListType !== undefined) updates.smartListType = payload.smartListType;
+
+  return updates;
+}
+
+/**
+ * Merge field updates into a list projection, returning the fields applied
+ */
+async function applyListUpdates(
+  ctx: MutationCtx,
+  existing: Doc<"taskListsProjection">,
+  event: TaskEvent,
+  candidate: Partial<Doc<"taskListsProjection">>
+): Promise<string[]> {
+  const merge = mergeFieldUpdates(existing, event, candidate);
+  await recordMergeConflicts(ctx, "list", existing.listId, existing, event, candidate, merge.rejected);
+
+  if (!merge.updates) {
+    return [];
   }
+
+  await ctx.db.patch(existing._id, {
+    ...merge.updates,
+    syncVersion: await nextSyncVersion(ctx, event.userId),
+  });
+
+  return merge.applied;
 }
 
 // ============================================================================
 // Task Event Handlers
 // ============================================================================
 
+// Task fields merged independently by last-writer-wins
+const TASK_MERGE_FIELDS = [
+  "listId",
+  "title",
+  "notes",
+  "dueDate",
+  "dueTime",
+  "priority",
+  "tags",
+  "flag",
+  "completed",
+  "completedAt",
+  "redBeaconEnabled",
+  "mirrorToCalendar",
+  "calendarEventId",
+  "recurrence",
+  "subtasks",
+  "attachments",
+  "location",
+  "url",
+  "sortOrder",
+  "tombstoned",
+  "tombstonedAt",
+] as const;
+
 async function processTaskEvent(ctx: MutationCtx, event: TaskEvent): Promise<void> {
   const payload = event.payload as TaskPayload;
   const eventType = event.eventType;
@@ -359,6 +806,10 @@ async function processTaskEvent(ctx: MutationCtx, event: TaskEvent): Promise<voi
       await deleteTaskProjection(ctx, event, payload);
       break;
 
+    case "tasks.task.restored":
+      await restoreTaskProjection(ctx, event, payload);
+      break;
+
     case "tasks.task.completed":
       await completeTaskProjection(ctx, event, payload);
       break;
@@ -375,6 +826,15 @@ async function processTaskEvent(ctx: MutationCtx, event: TaskEvent): Promise<voi
       await reorderTaskProjection(ctx, event, payload);
       break;
 
+    // Client shorthand for updating the flag
+    case "tasks.task.flagged":
+      await updateTaskProjection(ctx, event, { ...payload, flag: true });
+      break;
+
+    case "tasks.task.unflagged":
+      await updateTaskProjection(ctx, event, { ...payload, flag: false });
+      break;
+
     default:
       console.warn(`Unknown task event type: ${eventType}`);
   }
@@ -388,14 +848,14 @@ async function createTaskProjection(
   // Check if task already exists (idempotency)
   const existing = await ctx.db
     .query("tasksProjection")
-    .withIndex("by_task_id", (q) => q.eq("taskId", payload.taskId))
+    .withIndex("by_user_task", (q) =>
+      q.eq("userId", event.userId).eq("taskId", payload.taskId)
+    )
     .first();
 
   if (existing) {
-    // Task already exists - update if this event is newer
-    if (event.timestamp > existing.updatedAt) {
-      await updateTaskFromPayload(ctx, existing._id, event, payload, existing);
-    }
+    // Task already exists - merge any fields this event wins
+    await updateTaskFromPayload(ctx, event, payload, existing);
     return;
   }
 
@@ -431,11 +891,16 @@ async function createTaskProjection(
     createdAt: event.timestamp,
     updatedAt: event.timestamp,
     tombstoned: false,
+    fieldClocks: initialFieldClocks(TASK_MERGE_FIELDS, event),
     lastEventId: event.eventId,
+    syncVersion: await nextSyncVersion(ctx, event.userId),
   });
 
-  // Update list task count
-  await updateListTaskCount(ctx, payload.listId, 1, 0);
+  // Update list task count and tag usage counts
+  await updateListTaskCount(ctx, event.userId, payload.listId, 1, payload.completed ? 1 : 0);
+  await updateTagTaskCounts(ctx, event.userId, [], payload.tags ?? []);
+  await syncTaskTags(ctx, event.userId, payload.taskId, payload.tags ?? []);
+  await recordOrphanedTask(ctx, event, payload.taskId, payload.listId);
 }
 
 async function updateTaskProjection(
@@ -445,7 +910,9 @@ async function updateTaskProjection(
 ): Promise<void> {
   const existing = await ctx.db
     .query("tasksProjection")
-    .withIndex("by_task_id", (q) => q.eq("taskId", payload.taskId))
+    .withIndex("by_user_task", (q) =>
+      q.eq("userId", event.userId).eq("taskId", payload.taskId)
+    )
     .first();
 
   if (!existing) {
@@ -456,26 +923,18 @@ async function updateTaskProjection(
     return;
   }
 
-  // Only update if this event is newer
-  if (event.timestamp <= existing.updatedAt) {
-    return;
-  }
-
-  await updateTaskFromPayload(ctx, existing._id, event, payload, existing);
+  await updateTaskFromPayload(ctx, event, payload, existing);
 }
 
 async function updateTaskFromPayload(
   ctx: MutationCtx,
-  taskId: Id<"tasksProjection">,
   event: TaskEvent,
   payload: TaskPayload,
   existing: Doc<"tasksProjection">
 ): Promise<void> {
-  const updates: Partial<Doc<"tasksProjection">> = {
-    updatedAt: event.timestamp,
-    lastEventId: event.eventId,
-  };
+  const updates: Partial<Doc<"tasksProjection">> = {};
 
+  if (payload.listId !== undefined) updates.listId = payload.listId;
   if (payload.title !== undefined) updates.title = payload.title;
   if (payload.notes !== undefined) updates.notes = payload.notes;
   if (payload.dueDate !== undefined) updates.dueDate = payload.dueDate ?? undefined;
@@ -495,15 +954,7 @@ async function updateTaskFromPayload(
   if (payload.url !== undefined) updates.url = payload.url ?? undefined;
   if (payload.sortOrder !== undefined) updates.sortOrder = payload.sortOrder;
 
-  // Handle list change
-  if (payload.listId !== undefined && payload.listId !== existing.listId) {
-    updates.listId = payload.listId;
-    // Update counts on both lists
-    await updateListTaskCount(ctx, existing.listId, -1, existing.completed ? -1 : 0);
-    await updateListTaskCount(ctx, payload.listId, 1, existing.completed ? 1 : 0);
-  }
-
-  await ctx.db.patch(taskId, updates);
+  await applyTaskUpdates(ctx, existing, event, updates);
 }
 
 async function deleteTaskProjection(
@@ -513,67 +964,65 @@ async function deleteTaskProjection(
 ): Promise<void> {
   const existing = await ctx.db
     .query("tasksProjection")
-    .withIndex("by_task_id", (q) => q.eq("taskId", payload.taskId))
+    .withIndex("by_user_task", (q) =>
+      q.eq("userId", event.userId).eq("taskId", payload.taskId)
+    )
     .first();
 
   if (!existing) {
     return; // Nothing to delete
   }
 
-  // Only update if this event is newer
-  if (event.timestamp <= existing.updatedAt) {
-    return;
-  }
-
   // Soft delete (tombstone)
-  await ctx.db.patch(existing._id, {
+  await applyTaskUpdates(ctx, existing, event, {
     tombstoned: true,
     tombstonedAt: event.timestamp,
-    updatedAt: event.timestamp,
-    lastEventId: event.eventId,
   });
-
-  // Update list task count
-  await updateListTaskCount(
-    ctx,
-    existing.listId,
-    -1,
-    existing.completed ? -1 : 0
-  );
 }
 
-async function completeTaskProjection(
+async function restoreTaskProjection(
   ctx: MutationCtx,
   event: TaskEvent,
   payload: TaskPayload
 ): Promise<void> {
   const existing = await ctx.db
     .query("tasksProjection")
-    .withIndex("by_task_id", (q) => q.eq("taskId", payload.taskId))
+    .withIndex("by_user_task", (q) =>
+      q.eq("userId", event.userId).eq("taskId", payload.taskId)
+    )
     .first();
 
   if (!existing) {
     return;
   }
 
-  // Only update if this event is newer
-  if (event.timestamp <= existing.updatedAt) {
+  // Undo of a delete; wins over the tombstone only if newer than it
+  await applyTaskUpdates(ctx, existing, event, {
+    tombstoned: false,
+    tombstonedAt: undefined,
+  });
+}
+
+async function completeTaskProjection(
+  ctx: MutationCtx,
+  event: TaskEvent,
+  payload: TaskPayload
+): Promise<void> {
+  const existing = await ctx.db
+    .query("tasksProjection")
+    .withIndex("by_user_task", (q) =>
+      q.eq("userId", event.userId).eq("taskId", payload.taskId)
+    )
+    .first();
+
+  if (!existing) {
     return;
   }
 
-  const wasCompleted = existing.completed;
-
-  await ctx.db.patch(existing._id, {
+  await applyTaskUpdates(ctx, existing, event, {
     completed: true,
     completedAt: payload.completedAt ?? new Date(event.timestamp).toISOString(),
-    updatedAt: event.timestamp,
-    lastEventId: event.eventId,
   });
-
-  // Update list completed count if status changed
-  if (!wasCompleted) {
-    await updateListTaskCount(ctx, existing.listId, 0, 1);
-  }
 }
 
 async function uncompleteTaskProjection(
@@ -583,31 +1032,19 @@ async function uncompleteTaskProjection(
 ): Promise<void> {
   const existing = await ctx.db
     .query("tasksProjection")
-    .withIndex("by_task_id", (q) => q.eq("taskId", payload.taskId))
+    .withIndex("by_user_task", (q) =>
+      q.eq("userId", event.userId).eq("taskId", payload.taskId)
+    )
     .first();
 
   if (!existing) {
     return;
   }
 
-  // Only update if this event is newer
-  if (event.timestamp <= existing.updatedAt) {
-    return;
-  }
-
-  const wasCompleted = existing.completed;
-
-  await ctx.db.patch(existing._id, {
+  await applyTaskUpdates(ctx, existing, event, {
     completed: false,
     completedAt: undefined,
-    updatedAt: event.timestamp,
-    lastEventId: event.eventId,
   });
-
-  // Update list completed count if status changed
-  if (wasCompleted) {
-    await updateListTaskCount(ctx, existing.listId, 0, -1);
-  }
 }
 
 async function moveTaskProjection(
@@ -617,33 +1054,19 @@ async function moveTaskProjection(
 ): Promise<void> {
   const existing = await ctx.db
     .query("tasksProjection")
-    .withIndex("by_task_id", (q) => q.eq("taskId", payload.taskId))
+    .withIndex("by_user_task", (q) =>
+      q.eq("userId", event.userId).eq("taskId", payload.taskId)
+    )
     .first();
 
   if (!existing || !payload.listId) {
     return;
   }
 
-  // Only update if this event is newer
-  if (event.timestamp <= existing.updatedAt) {
-    return;
-  }
-
-  const oldListId = existing.listId;
-  const newListId = payload.listId;
-
-  if (oldListId !== newListId) {
-    await ctx.db.patch(existing._id, {
-      listId: newListId,
-      sortOrder: payload.sortOrder ?? existing.sortOrder,
-      updatedAt: event.timestamp,
-      lastEventId: event.eventId,
-    });
+  const updates: Partial<Doc<"tasksProjection">> = { listId: payload.listId };
+  if (payload.sortOrder !== undefined) updates.sortOrder = payload.sortOrder;
 
-    // Update counts on both lists
-    await updateListTaskCount(ctx, oldListId, -1, existing.completed ? -1 : 0);
-    await updateListTaskCount(ctx, newListId, 1, existing.completed ? 1 : 0);
-  }
+  await applyTaskUpdates(ctx, existing, event, updates);
 }
 
 async function reorderTaskProjection(
@@ -653,26 +1076,85 @@ async function reorderTaskProjection(
 ): Promise<void> {
   const existing = await ctx.db
     .query("tasksProjection")
-    .withIndex("by_task_id", (q) => q.eq("taskId", payload.taskId))
+    .withIndex("by_user_task", (q) =>
+      q.eq("userId", event.userId).eq("taskId", payload.taskId)
+    )
     .first();
 
-  if (!existing || event.timestamp <= existing.updatedAt) {
+  if (!existing || payload.sortOrder === undefined) {
     return;
   }
 
-  if (payload.sortOrder !== undefined) {
-    await ctx.db.patch(existing._id, {
-      sortOrder: payload.sortOrder,
-      updatedAt: event.timestamp,
-      lastEventId: event.eventId,
-    });
+  await applyTaskUpdates(ctx, existing, event, { sortOrder: payload.sortOrder });
+}
+
+/**
+ * Merge field updates into a task projection and keep list counts in step
+ *
+ * Returns the fields that were applied.
+ */
+async function applyTaskUpdates(
+  ctx: MutationCtx,
+  existing: Doc<"tasksProjection">,
+  event: TaskEvent,
+  candidate: Partial<Doc<"tasksProjection">>
+): Promise<string[]> {
+  const merge = mergeFieldUpdates(existing, event, candidate);
+  await recordMergeConflicts(ctx, "task", existing.taskId, existing, event, candidate, merge.rejected);
+
+  if (!merge.updates) {
+    return [];
+  }
+
+  await ctx.db.patch(existing._id, {
+    ...merge.updates,
+    syncVersion: await nextSyncVersion(ctx, event.userId),
+  });
+
+  // Keep denormalized list counts in step with what actually changed
+  const next = { ...existing, ...merge.updates };
+  const wasCounted = !existing.tombstoned;
+  const isCounted = !next.tombstoned;
+
+  if (existing.listId !== next.listId || wasCounted !== isCounted) {
+    if (wasCounted) {
+      await updateListTaskCount(ctx, existing.userId, existing.listId, -1, existing.completed ? -1 : 0);
+    }
+    if (isCounted) {
+      await updateListTaskCount(ctx, existing.userId, next.listId, 1, next.completed ? 1 : 0);
+    }
+  } else if (isCounted && existing.completed !== next.completed) {
+    await updateListTaskCount(ctx, existing.userId, next.listId, 0, next.completed ? 1 : -1);
   }
+
+  await updateTagTaskCounts(
+    ctx,
+    existing.userId,
+    wasCounted ? existing.tags : [],
+    isCounted ? next.tags : []
+  );
+
+  if (merge.applied.includes("tags")) {
+    await syncTaskTags(ctx, existing.userId, existing.taskId, next.tags);
+  }
+
+  if (merge.applied.includes("listId") && isCounted) {
+    await recordOrphanedTask(ctx, event, existing.taskId, next.listId);
+  }
+
+  return merge.applied;
 }
 
 // ============================================================================
 // Tag Event Handlers
 // ============================================================================
 
+// Tag fields merged independently by last-writer-wins
+const TAG_MERGE_FIELDS = ["name", "color", "tombstoned", "tombstonedAt"] as const;
+
+// Tasks a deleted tag is removed from per run
+const TAG_STRIP_PAGE_SIZE = 100;
+
 async function processTagEvent(ctx: MutationCtx, event: TaskEvent): Promise<void> {
   const payload = event.payload as TagPayload;
   const eventType = event.eventType;
@@ -703,18 +1185,13 @@ async function createTagProjection(
   // Check if tag already exists (idempotency)
   const existing = await ctx.db
     .query("tagsProjection")
-    .withIndex("by_tag_id", (q) => q.eq("tagId", payload.tagId))
+    .withIndex("by_user_tag", (q) =>
+      q.eq("userId", event.userId).eq("tagId", payload.tagId)
+    )
     .first();
 
   if (existing) {
-    if (event.timestamp > existing.updatedAt) {
-      await ctx.db.patch(existing._id, {
-        name: payload.name ?? existing.name,
-        color: payload.color ?? existing.color,
-        updatedAt: event.timestamp,
-        lastEventId: event.eventId,
-      });
-    }
+    await applyTagUpdates(ctx, existing, event, tagUpdatesFromPayload(payload));
     return;
   }
 
@@ -726,8 +1203,10 @@ async function createTagProjection(
     createdAt: event.timestamp,
     updatedAt: event.timestamp,
     tombstoned: false,
-    taskCount: 0,
+    taskCount: await takePendingTagCount(ctx, event.userId, payload.tagId),
+    fieldClocks: initialFieldClocks(TAG_MERGE_FIELDS, event),
     lastEventId: event.eventId,
+    syncVersion: await nextSyncVersion(ctx, event.userId),
   });
 }
 
@@ -738,7 +1217,9 @@ async function updateTagProjection(
 ): Promise<void> {
   const existing = await ctx.db
     .query("tagsProjection")
-    .withIndex("by_tag_id", (q) => q.eq("tagId", payload.tagId))
+    .withIndex("by_user_tag", (q) =>
+      q.eq("userId", event.userId).eq("tagId", payload.tagId)
+    )
     .first();
 
   if (!existing) {
@@ -746,19 +1227,7 @@ async function updateTagProjection(
     return;
   }
 
-  if (event.timestamp <= existing.updatedAt) {
-    return;
-  }
-
-  const updates: Partial<Doc<"tagsProjection">> = {
-    updatedAt: event.timestamp,
-    lastEventId: event.eventId,
-  };
-
-  if (payload.name !== undefined) updates.name = payload.name;
-  if (payload.color !== undefined) updates.color = payload.color;
-
-  await ctx.db.patch(existing._id, updates);
+  await applyTagUpdates(ctx, existing, event, tagUpdatesFromPayload(payload));
 }
 
 async function deleteTagProjection(
@@ -768,49 +1237,417 @@ async function deleteTagProjection(
 ): Promise<void> {
   const existing = await ctx.db
     .query("tagsProjection")
-    .withIndex("by_tag_id", (q) => q.eq("tagId", payload.tagId))
+    .withIndex("by_user_tag", (q) =>
+      q.eq("userId", event.userId).eq("tagId", payload.tagId)
+    )
     .first();
 
-  if (!existing || event.timestamp <= existing.updatedAt) {
+  if (!existing) {
     return;
   }
 
-  await ctx.db.patch(existing._id, {
+  const applied = await applyTagUpdates(ctx, existing, event, {
     tombstoned: true,
     tombstonedAt: event.timestamp,
-    updatedAt: event.timestamp,
-    lastEventId: event.eventId,
   });
+
+  if (!applied.includes("tombstoned")) {
+    return;
+  }
+
+  // Remove the tag from every task carrying it, deleted tasks included so a
+  // restored task doesn't come back pointing at a dead tag
+  await stripTagFromTasks(ctx, event.userId, payload.tagId);
+}
+
+/**
+ * Remove a deleted tag from the next page of tasks carrying it
+ *
+ * The strip is the server's own cascade, not an edit: it is applied
+ * whatever the task's field clocks say and records no conflicts. Schedules
+ * stripDeletedTag for the rest.
+ */
+async function stripTagFromTasks(ctx: MutationCtx, userId: string, tagId: string): Promise<void> {
+  const rows = await ctx.db
+    .query("taskTags")
+    .withIndex("by_user_tag", (q) => q.eq("userId", userId).eq("tagId", tagId))
+    .take(TAG_STRIP_PAGE_SIZE);
+
+  for (const row of rows) {
+    const task = await ctx.db
+      .query("tasksProjection")
+      .withIndex("by_user_task", (q) => q.eq("userId", userId).eq("taskId", row.taskId))
+      .first();
+
+    if (task) {
+      await ctx.db.patch(task._id, {
+        tags: task.tags.filter((id) => id !== tagId),
+        syncVersion: await nextSyncVersion(ctx, userId),
+      });
+    }
+    await ctx.db.delete(row._id);
+  }
+
+  if (rows.length === TAG_STRIP_PAGE_SIZE) {
+    await ctx.scheduler.runAfter(0, internal.projections.stripDeletedTag, { userId, tagId });
+  }
+}
+
+function tagUpdatesFromPayload(payload: TagPayload): Partial<Doc<"tagsProjection">> {
+  const updates: Partial<Doc<"tagsProjection">> = {};
+
+  if (payload.name !== undefined) updates.name = payload.name;
+  if (payload.color !== undefined) updates.color = payload.color;
+
+  return updates;
+}
+
+/**
+ * Merge field updates into a tag projection, returning the fields applied
+ */
+async function applyTagUpdates(
+  ctx: MutationCtx,
+  existing: Doc<"tagsProjection">,
+  event: TaskEvent,
+  candidate: Partial<Doc<"tagsProjection">>
+): Promise<string[]> {
+  const merge = mergeFieldUpdates(existing, event, candidate);
+  await recordMergeConflicts(ctx, "tag", existing.tagId, existing, event, candidate, merge.rejected);
+
+  if (!merge.updates) {
+    return [];
+  }
+
+  await ctx.db.patch(existing._id, {
+    ...merge.updates,
+    syncVersion: await nextSyncVersion(ctx, event.userId),
+  });
+
+  return merge.applied;
 }
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+interface MergeableRow {
+  updatedAt: number;
+  lastEventId: string;
+  fieldTimestamps?: Record<string, number>;
+  fieldClocks?: Record<string, string>;
+}
+
+/**
+ * Field-level last-writer-wins merge
+ *
+ * Each tracked field carries the hybrid logical clock of the event that last
+ * wrote it, so concurrent edits to different fields of the same row both
+ * survive. A candidate field is applied only if the event's clock is later
+ * than that field's last write. Fields last written before clocks were
+ * tracked fall back to their timestamp (or the row's updatedAt).
+ *
+ * `updates` is null if the event wins no fields; `rejected` lists the
+ * candidate fields that lost to a newer write.
+ */
+function mergeFieldUpdates<T extends MergeableRow>(
+  existing: T,
+  event: TaskEvent,
+  candidate: Partial<T>
+): { updates: Partial<T> | null; applied: string[]; rejected: string[] } {
+  const eventClock = getEventClock(event);
+  const fieldClocks = existing.fieldClocks ?? {};
+
+  const updates: Partial<T> = {};
+  const nextFieldClocks = { ...fieldClocks };
+  const applied: string[] = [];
+  const rejected: string[] = [];
+
+  for (const [field, value] of Object.entries(candidate)) {
+    const fieldClock =
+      fieldClocks[field] ?? legacyHlc(existing.fieldTimestamps?.[field] ?? existing.updatedAt);
+    if (eventClock <= fieldClock) {
+      rejected.push(field);
+      continue;
+    }
+
+    (updates as Record<string, unknown>)[field] = value;
+    nextFieldClocks[field] = eventClock;
+    applied.push(field);
+  }
+
+  if (applied.length === 0) {
+    return { updates: null, applied, rejected };
+  }
+
+  return {
+    updates: {
+      ...updates,
+      fieldClocks: nextFieldClocks,
+      updatedAt: Math.max(existing.updatedAt, event.timestamp),
+      lastEventId: event.eventId,
+    },
+    applied,
+    rejected,
+  };
+}
+
+/**
+ * Record the parts of an event that the merge discarded
+ *
+ * An edit to a tombstoned row is a delete/modify conflict (the edit is
+ * invisible while the row is deleted). Otherwise any rejected field whose
+ * value differs from the winning value is a conflict, classified as a move
+ * or reorder conflict for those event types.
+ */
+async function recordMergeConflicts(
+  ctx: MutationCtx,
+  entityType: ConflictEntityType,
+  entityId: string,
+  existing: MergeableRow & { tombstoned: boolean },
+  event: TaskEvent,
+  candidate: Record<string, unknown>,
+  rejected: string[]
+): Promise<void> {
+  // Conflicts were already recorded when the event was first projected
+  if (event.projectedAt !== undefined) {
+    return;
+  }
+
+  const current = existing as unknown as Record<string, unknown>;
+
+  if (existing.tombstoned && !("tombstoned" in candidate)) {
+    await recordConflict(ctx, {
+      userId: event.userId,
+      entityType,
+      entityId,
+      conflictType: "delete_modify_conflict",
+      losingEvent: event,
+      losingValues: pickFields(candidate, Object.keys(candidate)),
+      winningState: pickFields(current, ["tombstoned", "tombstonedAt"]),
+      winningEventId: existing.lastEventId,
+    });
+    return;
+  }
+
+  const lost = rejected.filter(
+    (field) => JSON.stringify(candidate[field]) !== JSON.stringify(current[field])
+  );
+
+  if (lost.length === 0) {
+    return;
+  }
+
+  let conflictType: ConflictType = "field_conflict";
+  if (event.eventType.endsWith(".moved") && lost.includes("listId")) {
+    conflictType = "move_conflict";
+  } else if (event.eventType.endsWith(".reordered")) {
+    conflictType = "reorder_conflict";
+  }
+
+  await recordConflict(ctx, {
+    userId: event.userId,
+    entityType,
+    entityId,
+    conflictType,
+    losingEvent: event,
+    losingValues: pickFields(candidate, lost),
+    winningState: pickFields(current, lost),
+    winningEventId: existing.lastEventId,
+  });
+}
+
+/**
+ * Record a task that landed in a list that doesn't exist or is deleted
+ */
+async function recordOrphanedTask(
+  ctx: MutationCtx,
+  event: TaskEvent,
+  taskId: string,
+  listId: string
+): Promise<void> {
+  if (event.projectedAt !== undefined) {
+    return;
+  }
+
+  const list = await ctx.db
+    .query("taskListsProjection")
+    .withIndex("by_user_list_id", (q) =>
+      q.eq("userId", event.userId).eq("listId", listId)
+    )
+    .first();
+
+  if (list && !list.tombstoned) {
+    return;
+  }
+
+  await recordConflict(ctx, {
+    userId: event.userId,
+    entityType: "task",
+    entityId: taskId,
+    conflictType: "orphaned_child",
+    losingEvent: event,
+    losingValues: { listId },
+    winningState: { listExists: list !== null, listTombstoned: list?.tombstoned ?? false },
+    winningEventId: list?.lastEventId ?? event.eventId,
+  });
+}
+
+/**
+ * Copy fields into a plain object, mapping cleared (undefined) values to null
+ */
+function pickFields(source: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((field) => [field, source[field] ?? null]));
+}
+
+function initialFieldClocks(fields: readonly string[], event: TaskEvent): Record<string, string> {
+  const clock = getEventClock(event);
+  return Object.fromEntries(fields.map((field) => [field, clock]));
+}
+
+/**
+ * An event's HLC; events stored before HLC stamping fall back to their timestamp
+ */
+function getEventClock(event: TaskEvent): string {
+  return event.hlc ?? legacyHlc(event.timestamp);
+}
+
 async function updateListTaskCount(
   ctx: MutationCtx,
+  userId: string,
   listId: string,
   taskDelta: number,
   completedDelta: number
 ): Promise<void> {
   const list = await ctx.db
     .query("taskListsProjection")
-    .withIndex("by_list_id", (q) => q.eq("listId", listId))
+    .withIndex("by_user_list_id", (q) => q.eq("userId", userId).eq("listId", listId))
     .first();
 
   if (!list) {
     return;
   }
 
-  const newTaskCount = Math.max(0, (list.taskCount ?? 0) + taskDelta);
-  const newCompletedCount = Math.max(0, (list.completedTaskCount ?? 0) + completedDelta);
+  const taskCount = (list.taskCount ?? 0) + taskDelta;
+  const completedCount = (list.completedTaskCount ?? 0) + completedDelta;
+
+  // A negative count means the counters drifted; integrity.ts repairs them
+  if (taskCount < 0 || completedCount < 0) {
+    console.warn(`Task counts for list ${listId} went negative; clamping to zero`);
+  }
+
+  const newTaskCount = Math.max(0, taskCount);
+  const newCompletedCount = Math.max(0, completedCount);
 
   await ctx.db.patch(list._id, {
     taskCount: newTaskCount,
     completedTaskCount: newCompletedCount,
+    syncVersion: await nextSyncVersion(ctx, list.userId),
   });
 }
 
+/**
+ * Adjust tag usage counts when the tags a task counts towards change
+ *
+ * Pass [] for a task that isn't counted (new, or tombstoned).
+ */
+async function updateTagTaskCounts(
+  ctx: MutationCtx,
+  userId: string,
+  previousTags: string[],
+  nextTags: string[]
+): Promise<void> {
+  const previous = new Set(previousTags);
+  const next = new Set(nextTags);
+
+  for (const tagId of previous) {
+    if (!next.has(tagId)) await adjustTagTaskCount(ctx, userId, tagId, -1);
+  }
+  for (const tagId of next) {
+    if (!previous.has(tagId)) await adjustTagTaskCount(ctx, userId, tagId, 1);
+  }
+}
+
+async function adjustTagTaskCount(
+  ctx: MutationCtx,
+  userId: string,
+  tagId: string,
+  delta: number
+): Promise<void> {
+  const tag = await ctx.db
+    .query("tagsProjection")
+    .withIndex("by_user_tag", (q) => q.eq("userId", userId).eq("tagId", tagId))
+    .first();
+
+  if (tag) {
+    await ctx.db.patch(tag._id, {
+      taskCount: Math.max(0, (tag.taskCount ?? 0) + delta),
+      syncVersion: await nextSyncVersion(ctx, userId),
+    });
+    return;
+  }
+
+  // Tasks can be tagged before the tag's create is projected; keep the
+  // change for when it is
+  const pending = await ctx.db
+    .query("pendingTagCounts")
+    .withIndex("by_user_tag", (q) => q.eq("userId", userId).eq("tagId", tagId))
+    .first();
+
+  if (pending) {
+    await ctx.db.patch(pending._id, { delta: pending.delta + delta });
+  } else {
+    await ctx.db.insert("pendingTagCounts", { userId, tagId, delta });
+  }
+}
+
+/**
+ * Claim the task count kept for a tag that didn't exist yet
+ */
+async function takePendingTagCount(ctx: MutationCtx, userId: string, tagId: string): Promise<number> {
+  const pending = await ctx.db
+    .query("pendingTagCounts")
+    .withIndex("by_user_tag", (q) => q.eq("userId", userId).eq("tagId", tagId))
+    .first();
+
+  if (!pending) {
+    return 0;
+  }
+
+  await ctx.db.delete(pending._id);
+  return Math.max(0, pending.delta);
+}
+
+/**
+ * Make a task's taskTags rows match the tags it carries
+ *
+ * Called wherever a task row's tags are written, so the tasks carrying a
+ * tag can be found through the taskTags index.
+ */
+export async function syncTaskTags(
+  ctx: MutationCtx,
+  userId: string,
+  taskId: string,
+  tags: string[]
+): Promise<void> {
+  const rows = await ctx.db
+    .query("taskTags")
+    .withIndex("by_user_task", (q) => q.eq("userId", userId).eq("taskId", taskId))
+    .collect();
+
+  const missing = new Set(tags);
+  for (const row of rows) {
+    if (missing.has(row.tagId)) {
+      missing.delete(row.tagId);
+    } else {
+      await ctx.db.delete(row._id);
+    }
+  }
+
+  for (const tagId of missing) {
+    await ctx.db.insert("taskTags", { userId, tagId, taskId });
+  }
+}
+
 // ============================================================================
 // Query Helpers for Projections
 // ============================================================================
@@ -859,52 +1696,3 @@ export const getTagById = internalQuery({
       .first();
   },
 });
-
-/**
- * Rebuild projections from events (for maintenance/recovery)
- */
-export const rebuildProjections = internalMutation({
-  args: {
-    userId: v.string(),
-    fromTimestamp: v.optional(v.number()),
-  },
-  handler: async (ctx, args) => {
-    const fromTime = args.fromTimestamp ?? 0;
-
-    // Get all events for user after timestamp, ordered by timestamp
-    const events = await ctx.db
-      .query("events")
-      .withIndex("by_user_timestamp", (q) =>
-        q.eq("userId", args.userId).gte("timestamp", fromTime)
-      )
-      .collect();
-
-    let processed = 0;
-    let errors = 0;
-
-    for (const event of events) {
-      try {
-        const eventType = event.eventType;
-
-        if (eventType.startsWith("tasks.list.")) {
-          await processListEvent(ctx, event as TaskEvent);
-        } else if (eventType.startsWith("tasks.task.")) {
-          await processTaskEvent(ctx, event as TaskEvent);
-        } else if (eventType.startsWith("tasks.tag.")) {
-          await processTagEvent(ctx, event as TaskEvent);
-        }
-
-        processed++;
-      } catch (error) {
-        console.error(`Error rebuilding from event ${event.eventId}:`, error);
-        errors++;
-      }
-    }
-
-    return {
-      processed,
-      errors,
-      total: events.length,
-    };
-  },
-});
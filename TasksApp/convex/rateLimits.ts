@@ -0,0 +1,123 @@
+import { MutationCtx } from "./_generated/server";
+
+/**
+ * Ingestion Limits Module
+ *
+ * Bounds what a single client can push into the event log:
+ * - request size and events per batch (checked by the HTTP route, 413)
+ * - payload size per event (checked at ingestion, per-event rejection)
+ * - events per minute per user and per device (token buckets, 429)
+ *
+ * Bucket state lives in the rateLimitBuckets table, so limits hold across
+ * concurrent HTTP actions. Every event in a request counts, duplicates
+ * included, so a client stuck in a retry loop is throttled before it can
+ * flood the event log and the scheduler.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RateLimitScope = "user" | "device";
+
+export type QuotaResult =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfterMs: number };
+
+interface BucketConfig {
+  // Events allowed in a burst
+  capacity: number;
+
+  // Events added back per minute
+  refillPerMinute: number;
+}
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+// Largest accepted request body (bytes)
+export const MAX_REQUEST_BYTES = 1024 * 1024;
+
+// Most events accepted in one batch
+export const MAX_BATCH_EVENTS = 500;
+
+// Largest accepted payload per event (bytes of JSON)
+export const MAX_EVENT_PAYLOAD_BYTES = 64 * 1024;
+
+const RATE_LIMITS: Record<RateLimitScope, BucketConfig> = {
+  user: { capacity: 2000, refillPerMinute: 1000 },
+  device: { capacity: 1000, refillPerMinute: 500 },
+};
+
+// ============================================================================
+// Quota
+// ============================================================================
+
+/**
+ * Take `eventCount` events from the user's and device's buckets
+ *
+ * Nothing is taken unless both buckets can cover the request. When denied,
+ * `retryAfterMs` is how long until the limiting bucket refills enough.
+ */
+export async function consumeIngestionQuota(
+  ctx: MutationCtx,
+  userId: string,
+  deviceId: string,
+  eventCount: number
+): Promise<QuotaResult> {
+  const now = Date.now();
+  const cost = Math.max(1, eventCount);
+
+  const buckets = await Promise.all(
+    (["user", "device"] as const).map(async (scope) => {
+      // User-wide buckets have no device
+      const bucketDeviceId = scope === "device" ? deviceId : undefined;
+      const config = RATE_LIMITS[scope];
+      const bucket = await ctx.db
+        .query("rateLimitBuckets")
+        .withIndex("by_user_scope_device", (q) =>
+          q.eq("userId", userId).eq("scope", scope).eq("deviceId", bucketDeviceId)
+        )
+        .first();
+
+      // Refill for the time elapsed since the last request
+      const elapsed = bucket ? now - bucket.refilledAt : 0;
+      const tokens = bucket
+        ? Math.min(config.capacity, bucket.tokens + (elapsed * config.refillPerMinute) / 60_000)
+        : config.capacity;
+
+      return { scope, bucketDeviceId, config, bucket, tokens };
+    })
+  );
+
+  for (const { scope, config, tokens } of buckets) {
+    if (cost > config.capacity) {
+      // Can never be satisfied; ask the client to split the batch after a full refill
+      return { allowed: false, scope, retryAfterMs: 60_000 };
+    }
+    if (tokens < cost) {
+      return {
+        allowed: false,
+        scope,
+        retryAfterMs: Math.ceil(((cost - tokens) * 60_000) / config.refillPerMinute),
+      };
+    }
+  }
+
+  for (const { scope, bucketDeviceId, bucket, tokens } of buckets) {
+    if (bucket) {
+      await ctx.db.patch(bucket._id, { tokens: tokens - cost, refilledAt: now });
+    } else {
+      await ctx.db.insert("rateLimitBuckets", {
+        userId,
+        scope,
+        deviceId: bucketDeviceId,
+        tokens: tokens - cost,
+        refilledAt: now,
+      });
+    }
+  }
+
+  return { allowed: true };
+}
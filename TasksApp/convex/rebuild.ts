@@ -0,0 +1,691 @@
+import { internalMutation, internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { fetchEventsAfter, projectEvent, syncTaskTags, TaskEvent } from "./projections";
+import { nextSyncVersion } from "./sync";
+import { getActiveCompaction, getLatestSnapshot, restoreSnapshotPage } from "./compaction";
+
+/**
+ * Projection Rebuild Module
+ *
+ * Replays a user's events into the projections as a chain of scheduled
+ * mutations, one page per run, so a rebuild stays within Convex's
+ * per-transaction limits however long the event log is. Progress is stored
+ * on the job, so a run that fails can be resumed from its last position.
+ *
+ * A fresh rebuild projects into shadow rows owned by a per-job user ID,
+ * leaving the live projections untouched while it runs. It starts from the
+ * latest compaction snapshot when there is one (see compaction.ts), so only
+ * events after the snapshot's cutoff are replayed. When the replay
+ * finishes the shadow rows are swapped over the live rows, and live rows the
+ * replay didn't produce are tombstoned, so a fresh rebuild repairs corrupted
+ * state rather than layering on top of it.
+ *
+ * Ordered projection (drainProjections) is paused for the user while a job
+ * is active and resumes from its checkpoint when the job finishes.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Events replayed per run
+const REBUILD_PAGE_SIZE = 200;
+
+// Rows swapped, pruned or discarded per run
+const SWAP_PAGE_SIZE = 200;
+
+// Projection tables walked by the swap, prune and cleanup phases, in order
+const PROJECTION_TABLES = ["taskListsProjection", "tasksProjection", "tagsProjection"] as const;
+
+// Job phases during which the job owns the user's projections
+const ACTIVE_STATUSES: Doc<"projectionRebuilds">["status"][] = [
+  "restoring",
+  "building",
+  "swapping",
+  "pruning",
+  "cancelling",
+];
+
+type ProjectionTable = (typeof PROJECTION_TABLES)[number];
+
+// ============================================================================
+// Job Control
+// ============================================================================
+
+/**
+ * Start a rebuild job for a user
+ *
+ * - fresh: false (default) replays events from `fromTimestamp` (default: the
+ *   latest snapshot's cutoff) over the live projections; handlers are
+ *   idempotent, so this catches up missed events
+ * - fresh: true restores the latest snapshot into shadow rows, replays the
+ *   rest of the log on top and swaps them in
+ */
+export const startRebuild = internalMutation({
+  args: {
+    userId: v.string(),
+    fromTimestamp: v.optional(v.number()),
+    fresh: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const fresh = args.fresh ?? false;
+
+    if (fresh && args.fromTimestamp !== undefined) {
+      return {
+        success: false as const,
+        code: "INVALID_ARGUMENTS",
+        error: "A fresh rebuild always replays the full event log",
+      };
+    }
+
+    const active = await getActiveRebuild(ctx, args.userId);
+    if (active) {
+      return {
+        success: false as const,
+        code: "REBUILD_IN_PROGRESS",
+        error: "A rebuild is already running for this user",
+        jobId: active._id,
+      };
+    }
+
+    // Compaction archives events the replay would otherwise read
+    if (await getActiveCompaction(ctx, args.userId)) {
+      return {
+        success: false as const,
+        code: "COMPACTION_IN_PROGRESS",
+        error: "A compaction is running for this user",
+      };
+    }
+
+    const snapshot = args.fromTimestamp === undefined
+      ? await getLatestSnapshot(ctx, args.userId)
+      : null;
+
+    const now = Date.now();
+    const jobId = await ctx.db.insert("projectionRebuilds", {
+      userId: args.userId,
+      status: fresh && snapshot ? "restoring" : "building",
+      fresh,
+      snapshotId: snapshot?._id,
+      // After the snapshot's cutoff; otherwise "" sorts before any eventId,
+      // so events at fromTimestamp are included
+      cursorTimestamp: snapshot?.cutoffTimestamp ?? args.fromTimestamp ?? 0,
+      cursorEventId: snapshot?.cutoffEventId ?? "",
+      phaseTable: 0,
+      phaseCursor: null,
+      processedCount: 0,
+      errorCount: 0,
+      swappedCount: 0,
+      prunedCount: 0,
+      startedAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.rebuild.rebuildStep, { jobId });
+
+    return { success: true as const, jobId };
+  },
+});
+
+/**
+ * Cancel a running rebuild
+ *
+ * Only possible while the snapshot is restored or events are being
+ * replayed; once the swap has started
+ * the live projections are partly rebuilt and the job must finish. Shadow
+ * rows of a fresh rebuild are discarded before projection resumes.
+ */
+export const cancelRebuild = internalMutation({
+  args: {
+    jobId: v.id("projectionRebuilds"),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) {
+      return { success: false as const, code: "NOT_FOUND", error: "Rebuild not found" };
+    }
+
+    if (job.status !== "restoring" && job.status !== "building") {
+      return {
+        success: false as const,
+        code: "NOT_CANCELLABLE",
+        error: `Rebuild can't be cancelled while ${job.status}`,
+      };
+    }
+
+    if (!job.fresh) {
+      await ctx.db.patch(job._id, { status: "cancelled", updatedAt: Date.now() });
+      await resumeProjection(ctx, job);
+      return { success: true as const };
+    }
+
+    await ctx.db.patch(job._id, {
+      status: "cancelling",
+      phaseTable: 0,
+      updatedAt: Date.now(),
+    });
+
+    // The step chain is already scheduled and picks up the new phase
+    return { success: true as const };
+  },
+});
+
+/**
+ * Resume a job whose step chain stopped (e.g. a run exceeded its limits)
+ *
+ * Restarts from the last stored position in a new step chain. A chain that
+ * is in fact still running sees the bumped stepToken and stops, so two
+ * chains never walk the job at once.
+ */
+export const resumeRebuild = internalMutation({
+  args: {
+    jobId: v.id("projectionRebuilds"),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) {
+      return { success: false as const, code: "NOT_FOUND", error: "Rebuild not found" };
+    }
+
+    if (!ACTIVE_STATUSES.includes(job.status)) {
+      return {
+        success: false as const,
+        code: "NOT_RESUMABLE",
+        error: `Rebuild is already ${job.status}`,
+      };
+    }
+
+    const stepToken = (job.stepToken ?? 0) + 1;
+    await ctx.db.patch(job._id, { stepToken, updatedAt: Date.now() });
+    await ctx.scheduler.runAfter(0, internal.rebuild.rebuildStep, { jobId: job._id, stepToken });
+
+    return { success: true as const };
+  },
+});
+
+// ============================================================================
+// Step Runner
+// ============================================================================
+
+/**
+ * Run one page of a rebuild job and schedule the next
+ *
+ * Steps from a superseded chain (see resumeRebuild) exit without running.
+ */
+export const rebuildStep = internalMutation({
+  args: {
+    jobId: v.id("projectionRebuilds"),
+    stepToken: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || (args.stepToken ?? 0) !== (job.stepToken ?? 0)) {
+      return { done: true };
+    }
+
+    let next: Partial<Doc<"projectionRebuilds">> | null;
+
+    switch (job.status) {
+      case "restoring":
+        next = await restorePage(ctx, job);
+        break;
+
+      case "building":
+        next = await replayPage(ctx, job);
+        break;
+
+      case "swapping":
+        next = await swapPage(ctx, job);
+        break;
+
+      case "pruning":
+        next = await prunePage(ctx, job);
+        break;
+
+      case "cancelling":
+        next = await discardPage(ctx, job);
+        break;
+
+      default:
+        // completed or cancelled: nothing left to do
+        return { done: true };
+    }
+
+    if (!next) {
+      return { done: true };
+    }
+
+    await ctx.db.patch(job._id, { ...next, updatedAt: Date.now() });
+    await ctx.scheduler.runAfter(0, internal.rebuild.rebuildStep, {
+      jobId: job._id,
+      stepToken: job.stepToken,
+    });
+
+    return { done: false };
+  },
+});
+
+/**
+ * Restore the next page of the starting snapshot into shadow rows
+ */
+async function restorePage(
+  ctx: MutationCtx,
+  job: Doc<"projectionRebuilds">
+): Promise<Partial<Doc<"projectionRebuilds">>> {
+  const snapshot = job.snapshotId ? await ctx.db.get(job.snapshotId) : null;
+  if (!snapshot) {
+    throw new Error(`Snapshot ${job.snapshotId} of rebuild ${job._id} is gone`);
+  }
+
+  const shadowUserId = getShadowUserId(job);
+  const page = await restoreSnapshotPage(
+    ctx,
+    snapshot,
+    shadowUserId,
+    { step: job.phaseTable ?? 0, cursor: job.phaseCursor ?? null },
+    (event) => toShadowEvent(event, shadowUserId, job)
+  );
+
+  const processedCount = job.processedCount + page.restored;
+
+  if (page.next) {
+    return { processedCount, phaseTable: page.next.step, phaseCursor: page.next.cursor };
+  }
+
+  return { processedCount, status: "building", phaseTable: 0, phaseCursor: null };
+}
+
+/**
+ * Replay the next page of events
+ *
+ * Per-event errors are counted and skipped, as a rebuild should get as far
+ * as it can rather than stop on one bad event.
+ */
+async function replayPage(
+  ctx: MutationCtx,
+  job: Doc<"projectionRebuilds">
+): Promise<Partial<Doc<"projectionRebuilds">> | null> {
+  const events = await fetchEventsAfter(
+    ctx,
+    job.userId,
+    { lastTimestamp: job.cursorTimestamp, lastEventId: job.cursorEventId },
+    REBUILD_PAGE_SIZE + 1
+  );
+
+  const shadowUserId = getShadowUserId(job);
+  let cursorTimestamp = job.cursorTimestamp;
+  let cursorEventId = job.cursorEventId;
+  let processedCount = job.processedCount;
+  let errorCount = job.errorCount;
+  let lastError = job.lastError;
+
+  for (const event of events.slice(0, REBUILD_PAGE_SIZE)) {
+    try {
+      await projectEvent(ctx, job.fresh ? toShadowEvent(event, shadowUserId, job) : (event as TaskEvent));
+      processedCount++;
+    } catch (error) {
+      console.error(`Error rebuilding from event ${event.eventId}:`, error);
+      lastError = error instanceof Error ? error.message : "Unknown error";
+      errorCount++;
+    }
+
+    cursorTimestamp = event.timestamp;
+    cursorEventId = event.eventId;
+  }
+
+  const progress = { cursorTimestamp, cursorEventId, processedCount, errorCount, lastError };
+
+  if (events.length > REBUILD_PAGE_SIZE) {
+    return progress;
+  }
+
+  if (!job.fresh) {
+    await completeRebuild(ctx, { ...job, ...progress });
+    return null;
+  }
+
+  // Live rows written from here on carry versions at or above this one
+  const counter = await ctx.db
+    .query("syncCounters")
+    .withIndex("by_user", (q) => q.eq("userId", job.userId))
+    .first();
+
+  return {
+    ...progress,
+    status: "swapping",
+    phaseTable: 0,
+    swapStartVersion: (counter?.version ?? 0) + 1,
+  };
+}
+
+/**
+ * Move the next page of shadow rows over the live rows
+ *
+ * Swapped rows get a new live sync version, so devices pull the rebuilt
+ * state through delta sync.
+ */
+async function swapPage(
+  ctx: MutationCtx,
+  job: Doc<"projectionRebuilds">
+): Promise<Partial<Doc<"projectionRebuilds">>> {
+  const tableIndex = job.phaseTable ?? 0;
+  const table = PROJECTION_TABLES[tableIndex];
+  const shadowUserId = getShadowUserId(job);
+  let swapped = 0;
+
+  if (table === "taskListsProjection") {
+    const rows = await ctx.db
+      .query("taskListsProjection")
+      .withIndex("by_user", (q) => q.eq("userId", shadowUserId))
+      .take(SWAP_PAGE_SIZE);
+
+    for (const { _id, _creationTime, ...row } of rows) {
+      const live = await ctx.db
+        .query("taskListsProjection")
+        .withIndex("by_user_list_id", (q) => q.eq("userId", job.userId).eq("listId", row.listId))
+        .first();
+      const doc = { ...row, userId: job.userId, syncVersion: await nextSyncVersion(ctx, job.userId) };
+
+      if (live) {
+        await ctx.db.replace(live._id, doc);
+      } else {
+        await ctx.db.insert("taskListsProjection", doc);
+      }
+      await ctx.db.delete(_id);
+      swapped++;
+    }
+  } else if (table === "tasksProjection") {
+    const rows = await ctx.db
+      .query("tasksProjection")
+      .withIndex("by_user", (q) => q.eq("userId", shadowUserId))
+      .take(SWAP_PAGE_SIZE);
+
+    for (const { _id, _creationTime, ...row } of rows) {
+      const live = await ctx.db
+        .query("tasksProjection")
+        .withIndex("by_user_task", (q) => q.eq("userId", job.userId).eq("taskId", row.taskId))
+        .first();
+      const doc = { ...row, userId: job.userId, syncVersion: await nextSyncVersion(ctx, job.userId) };
+
+      if (live) {
+        await ctx.db.replace(live._id, doc);
+      } else {
+        await ctx.db.insert("tasksProjection", doc);
+      }
+      await ctx.db.delete(_id);
+      await syncTaskTags(ctx, job.userId, row.taskId, row.tags);
+      await syncTaskTags(ctx, shadowUserId, row.taskId, []);
+      swapped++;
+    }
+  } else {
+    const rows = await ctx.db
+      .query("tagsProjection")
+      .withIndex("by_user", (q) => q.eq("userId", shadowUserId))
+      .take(SWAP_PAGE_SIZE);
+
+    for (const { _id, _creationTime, ...row } of rows) {
+      const live = await ctx.db
+        .query("tagsProjection")
+        .withIndex("by_user_tag", (q) => q.eq("userId", job.userId).eq("tagId", row.tagId))
+        .first();
+      const doc = { ...row, userId: job.userId, syncVersion: await nextSyncVersion(ctx, job.userId) };
+
+      if (live) {
+        await ctx.db.replace(live._id, doc);
+      } else {
+        await ctx.db.insert("tagsProjection", doc);
+      }
+      await ctx.db.delete(_id);
+      swapped++;
+    }
+  }
+
+  const swappedCount = job.swappedCount + swapped;
+
+  // Swapped rows are deleted, so a short page means the table is drained
+  if (swapped === SWAP_PAGE_SIZE) {
+    return { swappedCount };
+  }
+
+  if (tableIndex + 1 < PROJECTION_TABLES.length) {
+    return { swappedCount, phaseTable: tableIndex + 1 };
+  }
+
+  await deleteShadowCounter(ctx, job);
+
+  return { swappedCount, status: "pruning", phaseTable: 0, phaseCursor: null };
+}
+
+/**
+ * Tombstone the next page of live rows the rebuild didn't produce
+ *
+ * Every rebuilt row was written at or after swapStartVersion, so anything
+ * older is left over from the corrupted state.
+ */
+async function prunePage(
+  ctx: MutationCtx,
+  job: Doc<"projectionRebuilds">
+): Promise<Partial<Doc<"projectionRebuilds">> | null> {
+  const tableIndex = job.phaseTable ?? 0;
+  const table = PROJECTION_TABLES[tableIndex];
+  const swapStartVersion = job.swapStartVersion ?? 0;
+  const paginationOpts = { numItems: SWAP_PAGE_SIZE, cursor: job.phaseCursor ?? null };
+  const now = Date.now();
+
+  const page = await ctx.db
+    .query(table)
+    .withIndex("by_user_sync_version", (q) =>
+      q.eq("userId", job.userId).lt("syncVersion", swapStartVersion)
+    )
+    .paginate(paginationOpts);
+
+  let pruned = 0;
+  for (const row of page.page) {
+    if (row.tombstoned) {
+      continue;
+    }
+
+    await ctx.db.patch(row._id, {
+      tombstoned: true,
+      tombstonedAt: now,
+      updatedAt: now,
+      syncVersion: await nextSyncVersion(ctx, job.userId),
+    });
+    pruned++;
+  }
+
+  const prunedCount = job.prunedCount + pruned;
+
+  if (!page.isDone) {
+    return { prunedCount, phaseCursor: page.continueCursor };
+  }
+
+  if (tableIndex + 1 < PROJECTION_TABLES.length) {
+    return { prunedCount, phaseTable: tableIndex + 1, phaseCursor: null };
+  }
+
+  await completeRebuild(ctx, { ...job, prunedCount });
+  return null;
+}
+
+/**
+ * Delete the next page of shadow rows of a cancelled fresh rebuild
+ */
+async function discardPage(
+  ctx: MutationCtx,
+  job: Doc<"projectionRebuilds">
+): Promise<Partial<Doc<"projectionRebuilds">> | null> {
+  const tableIndex = job.phaseTable ?? 0;
+  const table: ProjectionTable = PROJECTION_TABLES[tableIndex];
+  const shadowUserId = getShadowUserId(job);
+
+  const rows = await ctx.db
+    .query(table)
+    .withIndex("by_user", (q) => q.eq("userId", shadowUserId))
+    .take(SWAP_PAGE_SIZE);
+
+  for (const row of rows) {
+    if ("taskId" in row) {
+      await syncTaskTags(ctx, shadowUserId, row.taskId, []);
+    }
+    await ctx.db.delete(row._id);
+  }
+
+  if (rows.length === SWAP_PAGE_SIZE) {
+    return {};
+  }
+
+  if (tableIndex + 1 < PROJECTION_TABLES.length) {
+    return { phaseTable: tableIndex + 1 };
+  }
+
+  await deleteShadowCounter(ctx, job);
+  await ctx.db.patch(job._id, {
+    status: "cancelled",
+    updatedAt: Date.now(),
+    completedAt: Date.now(),
+  });
+  await resumeProjection(ctx, job);
+
+  return null;
+}
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * Get the most recent rebuild job for a user
+ */
+export const getRebuildStatus = internalQuery({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db
+      .query("projectionRebuilds")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .first();
+
+    if (!job) {
+      return null;
+    }
+
+    return {
+      jobId: job._id,
+      status: job.status,
+      fresh: job.fresh,
+      snapshotId: job.snapshotId,
+      active: ACTIVE_STATUSES.includes(job.status),
+      cursorTimestamp: job.cursorTimestamp,
+      cursorEventId: job.cursorEventId,
+      processedCount: job.processedCount,
+      errorCount: job.errorCount,
+      swappedCount: job.swappedCount,
+      prunedCount: job.prunedCount,
+      lastError: job.lastError,
+      startedAt: job.startedAt,
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt,
+    };
+  },
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Get the user's active rebuild job, if any
+ */
+export async function getActiveRebuild(
+  ctx: QueryCtx,
+  userId: string
+): Promise<Doc<"projectionRebuilds"> | null> {
+  const job = await ctx.db
+    .query("projectionRebuilds")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .order("desc")
+    .first();
+
+  return job && ACTIVE_STATUSES.includes(job.status) ? job : null;
+}
+
+/**
+ * Shadow user ID that owns a fresh rebuild's rows until they are swapped in
+ */
+function getShadowUserId(job: { _id: Id<"projectionRebuilds">; userId: string }): string {
+  return `rebuild:${job._id}:${job.userId}`;
+}
+
+/**
+ * Copy an event so that it projects into the job's shadow rows
+ *
+ * Marked as already projected, so the replay neither records conflicts
+ * nor touches the stored event.
+ */
+function toShadowEvent(
+  event: Doc<"events">,
+  shadowUserId: string,
+  job: Doc<"projectionRebuilds">
+): TaskEvent {
+  return {
+    ...(event as TaskEvent),
+    userId: shadowUserId,
+    projectedAt: event.projectedAt ?? job.startedAt,
+  };
+}
+
+async function deleteShadowCounter(ctx: MutationCtx, job: Doc<"projectionRebuilds">): Promise<void> {
+  const counter = await ctx.db
+    .query("syncCounters")
+    .withIndex("by_user", (q) => q.eq("userId", getShadowUserId(job)))
+    .first();
+
+  if (counter) {
+    await ctx.db.delete(counter._id);
+  }
+}
+
+async function completeRebuild(ctx: MutationCtx, job: Doc<"projectionRebuilds">): Promise<void> {
+  const now = Date.now();
+
+  await ctx.db.patch(job._id, {
+    status: "completed",
+    cursorTimestamp: job.cursorTimestamp,
+    cursorEventId: job.cursorEventId,
+    processedCount: job.processedCount,
+    errorCount: job.errorCount,
+    prunedCount: job.prunedCount,
+    lastError: job.lastError,
+    updatedAt: now,
+    completedAt: now,
+  });
+
+  await resumeProjection(ctx, job);
+}
+
+/**
+ * Hand the user's projections back to ordered projection
+ *
+ * The checkpoint doesn't move while a job runs (late events can still rewind
+ * it), so draining from it projects everything the job may have missed.
+ */
+async function resumeProjection(ctx: MutationCtx, job: Doc<"projectionRebuilds">): Promise<void> {
+  const checkpoint = await ctx.db
+    .query("projectionCheckpoints")
+    .withIndex("by_user", (q) => q.eq("userId", job.userId))
+    .first();
+
+  if (!checkpoint) {
+    return;
+  }
+
+  await ctx.db.patch(checkpoint._id, { drainScheduled: true, updatedAt: Date.now() });
+  await ctx.scheduler.runAfter(0, internal.projections.drainProjections, {
+    userId: job.userId,
+  });
+}
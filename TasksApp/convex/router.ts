@@ -0,0 +1,231 @@
+import { HttpRouter, RoutableMethod } from "convex/server";
+import { ActionCtx, httpAction } from "./_generated/server";
+import {
+  authenticateRequest,
+  createAuthErrorResponse,
+  extractDeviceId,
+  AuthResult,
+  AuthError,
+} from "./auth";
+
+/**
+ * HTTP Routing Layer
+ *
+ * Convex's httpRouter matches `path` literally and `pathPrefix` by prefix
+ * only, so `/api/tasks/:taskId` never matches a real task ID. This module
+ * registers templated paths on top of httpRouter:
+ *
+ * - paths without params are registered as exact routes
+ * - templated paths are served by a pathPrefix route per method and static
+ *   prefix, which matches the request against every templated route and
+ *   extracts the params
+ *
+ * Literal segments win over params at the first position where routes
+ * differ, so `/api/tasks/search` beats `/api/tasks/:taskId` and
+ * `/api/tasks/smart/:viewType` beats `/api/tasks/:taskId/history`.
+ *
+ * Every handler runs authenticated, inside a shared try/catch that logs the
+ * error and returns a JSON 500.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Params of a path template, e.g. { listId: string } for
+ * "/api/lists/:listId/tasks"
+ */
+export type RouteParams<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: string } & RouteParams<`/${Rest}`>
+    : Path extends `${string}:${infer Param}`
+      ? { [K in Param]: string }
+      : Record<string, never>;
+
+export interface RouteContext<Path extends string> {
+  params: RouteParams<Path>;
+  auth: AuthResult;
+  deviceId: string;
+  url: URL;
+}
+
+export interface RouteOptions<Path extends string> {
+  path: Path;
+  method: RoutableMethod;
+
+  // Body of the 500 response if the handler throws
+  errorMessage: string;
+
+  // Include the thrown error's message in the 500 response
+  errorDetails?: boolean;
+
+  handler: (ctx: ActionCtx, request: Request, route: RouteContext<Path>) => Promise<Response>;
+}
+
+interface TemplatedRoute {
+  method: RoutableMethod;
+  segments: string[];
+  run: (ctx: ActionCtx, request: Request, params: Record<string, string>) => Promise<Response>;
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+/**
+ * JSON response with the given status and extra headers
+ */
+export function jsonResponse(
+  body: unknown,
+  status: number = 200,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+// ============================================================================
+// Router
+// ============================================================================
+
+/**
+ * Wrap an httpRouter so routes can be registered with path templates
+ */
+export function createApiRouter(http: HttpRouter) {
+  const templated: TemplatedRoute[] = [];
+  const registeredPrefixes = new Set<string>();
+
+  const dispatch = (method: RoutableMethod) =>
+    httpAction(async (ctx, request) => {
+      const segments = splitPath(new URL(request.url).pathname);
+
+      for (const route of templated) {
+        if (route.method !== method) {
+          continue;
+        }
+        const params = matchSegments(route.segments, segments);
+        if (params) {
+          return route.run(ctx, request, params);
+        }
+      }
+
+      return jsonResponse({ error: "Not found" }, 404);
+    });
+
+  return {
+    route<Path extends string>(options: RouteOptions<Path>): void {
+      const run = wrapHandler(options);
+      const segments = splitPath(options.path);
+      const firstParam = segments.findIndex(isParamSegment);
+
+      if (firstParam === -1) {
+        http.route({
+          path: options.path,
+          method: options.method,
+          handler: httpAction((ctx, request) => run(ctx, request, {})),
+        });
+        return;
+      }
+
+      templated.push({ method: options.method, segments, run });
+      templated.sort((a, b) => compareSpecificity(a.segments, b.segments));
+
+      const pathPrefix = `/${segments.slice(0, firstParam).join("/")}/`;
+      const key = `${options.method} ${pathPrefix}`;
+      if (!registeredPrefixes.has(key)) {
+        registeredPrefixes.add(key);
+        http.route({ pathPrefix, method: options.method, handler: dispatch(options.method) });
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Authenticate, run the handler and turn a thrown error into a JSON 500
+ */
+function wrapHandler<Path extends string>(options: RouteOptions<Path>) {
+  return async (ctx: ActionCtx, request: Request, params: Record<string, string>) => {
+    const authResult = await authenticateRequest(request, ctx);
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult as AuthError);
+    }
+
+    const auth = authResult as AuthResult;
+
+    try {
+      return await options.handler(ctx, request, {
+        params: params as RouteParams<Path>,
+        auth,
+        deviceId: extractDeviceId(request, auth),
+        url: new URL(request.url),
+      });
+    } catch (error) {
+      console.error(`Error handling ${options.method} ${options.path}:`, error);
+      return jsonResponse(
+        options.errorDetails
+          ? {
+              error: options.errorMessage,
+              details: error instanceof Error ? error.message : "Unknown error",
+            }
+          : { error: options.errorMessage },
+        500
+      );
+    }
+  };
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter((segment) => segment.length > 0);
+}
+
+function isParamSegment(segment: string): boolean {
+  return segment.startsWith(":");
+}
+
+/**
+ * Match request segments against a template, returning the decoded params
+ */
+function matchSegments(template: string[], segments: string[]): Record<string, string> | null {
+  if (template.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < template.length; i++) {
+    if (isParamSegment(template[i])) {
+      try {
+        params[template[i].slice(1)] = decodeURIComponent(segments[i]);
+      } catch {
+        return null;
+      }
+    } else if (template[i] !== segments[i]) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Order templates so that a literal segment beats a param at the first
+ * position where they differ
+ */
+function compareSpecificity(a: string[], b: string[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const aParam = isParamSegment(a[i]);
+    const bParam = isParamSegment(b[i]);
+    if (aParam !== bParam) {
+      return aParam ? 1 : -1;
+    }
+  }
+
+  return b.length - a.length;
+}
@@ -10,8 +10,19 @@ import { v } from "convex/values";
  * - userConsent: Consent snapshots for GDPR/privacy compliance
  */
 
+// Shape of an uploaded event (batch and stream ingestion)
+export const eventInputValidator = v.object({
+  eventId: v.string(),
+  timestamp: v.number(),
+  eventType: v.string(),
+  schemaVersion: v.number(),
+  payload: v.any(),
+  mediaRefs: v.optional(v.array(v.any())),
+  sequence: v.optional(v.number()),
+});
+
 // Event payload validators for different event types
-const taskEventPayload = v.object({
+export const taskEventPayload = v.object({
   taskId: v.string(),
   listId: v.optional(v.string()),
   title: v.optional(v.string()),
@@ -60,7 +71,7 @@ const taskEventPayload = v.object({
   sortOrder: v.optional(v.number()),
 });
 
-const listEventPayload = v.object({
+export const listEventPayload = v.object({
   listId: v.string(),
   name: v.optional(v.string()),
   color: v.optional(v.string()),
@@ -76,13 +87,13 @@ const listEventPayload = v.object({
   )),
 });
 
-const tagEventPayload = v.object({
+export const tagEventPayload = v.object({
   tagId: v.string(),
   name: v.optional(v.string()),
   color: v.optional(v.string()),
 });
 
-const voiceEventPayload = v.object({
+export const voiceEventPayload = v.object({
   taskId: v.string(),
   voiceNoteId: v.string(),
   transcription: v.optional(v.string()),
@@ -90,7 +101,7 @@ const voiceEventPayload = v.object({
   language: v.optional(v.string()),
 });
 
-const aiEventPayload = v.object({
+export const aiEventPayload = v.object({
   taskId: v.optional(v.string()),
   suggestionId: v.optional(v.string()),
   suggestionType: v.optional(v.string()),
@@ -99,6 +110,47 @@ const aiEventPayload = v.object({
   context: v.optional(v.any()),
 });
 
+export const naturalInputEventPayload = v.object({
+  text: v.string(),
+  taskId: v.optional(v.string()),
+  listId: v.optional(v.string()),
+});
+
+export const calendarEventPayload = v.object({
+  taskId: v.string(),
+  calendarProvider: v.optional(v.string()),
+});
+
+export const subtaskEventPayload = v.object({
+  parentTaskId: v.string(),
+  subtaskId: v.string(),
+});
+
+export const tagAssignmentEventPayload = v.object({
+  taskId: v.string(),
+  tagId: v.string(),
+});
+
+export const attachmentEventPayload = v.object({
+  taskId: v.string(),
+  attachment: v.any(),
+});
+
+export const attachmentStatusEventPayload = v.object({
+  attachmentId: v.string(),
+  status: v.number(),
+  remoteUrl: v.optional(v.union(v.string(), v.null())),
+});
+
+export const bulkEventPayload = v.object({
+  entityIds: v.array(v.string()),
+  operation: v.string(),
+  targetListId: v.optional(v.union(v.string(), v.null())),
+});
+
+// Client events with no fixed payload shape yet (calendar, consent)
+export const clientEventPayload = v.record(v.string(), v.any());
+
 // Generic event payload that can be any of the above
 const eventPayload = v.union(
   taskEventPayload,
@@ -106,15 +158,33 @@ const eventPayload = v.union(
   tagEventPayload,
   voiceEventPayload,
   aiEventPayload,
+  naturalInputEventPayload,
+  calendarEventPayload,
+  subtaskEventPayload,
+  tagAssignmentEventPayload,
+  attachmentEventPayload,
+  attachmentStatusEventPayload,
+  bulkEventPayload,
   v.object({}) // Empty payload for simple events
 );
 
+// A projection counter that didn't match its recomputed value
+const counterDiscrepancy = v.object({
+  entityType: v.union(v.literal("list"), v.literal("tag")),
+  entityId: v.string(),
+  field: v.union(v.literal("taskCount"), v.literal("completedTaskCount")),
+  expected: v.number(),
+  actual: v.union(v.number(), v.null()),
+});
+
 export default defineSchema({
   /**
    * Events Table (Append-Only Event Log)
    *
    * This is the source of truth for all state changes in the app.
-   * Events are immutable once written.
+   * Events are immutable once written: each event's content is hashed into
+   * a per-user chain (see chain.ts), so an edit or deletion is detectable.
+   * Only processing metadata (status, projectedAt, entityId) may change.
    */
   events: defineTable({
     // Unique event identifier (UUID v7 for time-ordering)
@@ -129,9 +199,18 @@ export default defineSchema({
     // App identifier (for multi-app support)
     appId: v.string(),
 
-    // Event timestamp (client-side, for ordering)
+    // Event timestamp (HLC wall time, for ordering; see clock.ts)
     timestamp: v.number(),
 
+    // Timestamp as sent by the client, before clock correction
+    clientTimestamp: v.optional(v.number()),
+
+    // Encoded hybrid logical clock (orders field-level merges)
+    hlc: v.optional(v.string()),
+
+    // Per-device upload sequence number assigned by the client
+    deviceSequence: v.optional(v.number()),
+
     // Server timestamp (for audit)
     serverTimestamp: v.number(),
 
@@ -141,9 +220,12 @@ export default defineSchema({
     // Schema version for payload migration
     schemaVersion: v.number(),
 
-    // Event payload (validated based on eventType)
+    // Event payload (validated at ingestion based on eventType, see eventRegistry.ts)
     payload: v.any(),
 
+    // ID of the list, task or tag the event targets (for entity history)
+    entityId: v.optional(v.string()),
+
     // References to media files (images, voice notes, etc.)
     mediaRefs: v.optional(v.array(v.object({
       id: v.string(),
@@ -166,14 +248,121 @@ export default defineSchema({
 
     // Error details if processing failed
     processingError: v.optional(v.string()),
+
+    // When the projector first applied this event
+    projectedAt: v.optional(v.number()),
+
+    // Position in the user's hash chain (0-based, insertion order)
+    chainIndex: v.optional(v.number()),
+
+    // Hash of the previous event in the chain ("" for the first)
+    prevHash: v.optional(v.string()),
+
+    // SHA-256 of this event's content and prevHash
+    contentHash: v.optional(v.string()),
   })
     .index("by_user", ["userId"])
+    .index("by_user_chain", ["userId", "chainIndex"])
+    .index("by_user_server_timestamp", ["userId", "serverTimestamp"])
     .index("by_user_timestamp", ["userId", "timestamp"])
+    .index("by_user_timestamp_event", ["userId", "timestamp", "eventId"])
+    .index("by_user_entity", ["userId", "entityId", "timestamp", "eventId"])
     .index("by_user_type", ["userId", "eventType"])
     .index("by_event_id", ["eventId"])
+    .index("by_user_app_event", ["userId", "appId", "eventId"])
     .index("by_processing_status", ["processingStatus"])
     .index("by_user_processing", ["userId", "processingStatus"]),
 
+  /**
+   * Projection Checkpoints
+   *
+   * Per-user position of the projector in the event log.
+   * Events are projected strictly in (timestamp, eventId) order.
+   */
+  projectionCheckpoints: defineTable({
+    // User ID
+    userId: v.string(),
+
+    // Position of the last projected event
+    lastTimestamp: v.number(),
+    lastEventId: v.string(),
+
+    // Whether a drain run is already scheduled
+    drainScheduled: v.boolean(),
+
+    // Consecutive failures on the event after the checkpoint
+    retryCount: v.number(),
+    lastError: v.optional(v.string()),
+
+    // Events skipped after exhausting retries (most recent last)
+    failedEventIds: v.array(v.string()),
+
+    // Total events projected through this checkpoint
+    processedCount: v.number(),
+
+    // Timestamps
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_drain_updated", ["drainScheduled", "updatedAt"]),
+
+  /**
+   * Projection Rebuilds Table
+   *
+   * Resumable rebuild jobs. A job replays a user's events in pages, either
+   * over the live projections or into fresh shadow rows that are swapped in
+   * when the replay finishes. Ordered projection is paused while a job runs.
+   */
+  projectionRebuilds: defineTable({
+    // User ID
+    userId: v.string(),
+
+    // Job phase
+    status: v.union(
+      v.literal("restoring"),
+      v.literal("building"),
+      v.literal("swapping"),
+      v.literal("pruning"),
+      v.literal("cancelling"),
+      v.literal("completed"),
+      v.literal("cancelled")
+    ),
+
+    // Rebuild into shadow rows and swap them in (clears corrupted state)
+    fresh: v.boolean(),
+
+    // Snapshot a fresh rebuild starts from (see compaction.ts)
+    snapshotId: v.optional(v.id("projectionSnapshots")),
+
+    // Position of the last replayed event
+    cursorTimestamp: v.number(),
+    cursorEventId: v.string(),
+
+    // Progress
+    processedCount: v.number(),
+    errorCount: v.number(),
+    swappedCount: v.number(),
+    prunedCount: v.number(),
+
+    // Restore/swap/prune position: table being walked and its pagination cursor
+    phaseTable: v.optional(v.number()),
+    phaseCursor: v.optional(v.union(v.string(), v.null())),
+
+    // Generation of the step chain; resuming bumps it so stale steps exit
+    stepToken: v.optional(v.number()),
+
+    // First sync version issued by the swap; live rows below it weren't rebuilt
+    swapStartVersion: v.optional(v.number()),
+
+    lastError: v.optional(v.string()),
+
+    // Timestamps
+    startedAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_user", ["userId", "startedAt"]),
+
   /**
    * Task Lists Projection
    *
@@ -215,13 +404,24 @@ export default defineSchema({
     taskCount: v.optional(v.number()),
     completedTaskCount: v.optional(v.number()),
 
+    // Timestamp of the last write to each field (rows written before fieldClocks)
+    fieldTimestamps: v.optional(v.record(v.string(), v.number())),
+
+    // HLC of the last write to each field (field-level LWW merge)
+    fieldClocks: v.optional(v.record(v.string(), v.string())),
+
     // Last event ID that updated this projection
     lastEventId: v.string(),
+
+    // Per-user change version (for delta sync)
+    syncVersion: v.optional(v.number()),
   })
     .index("by_user", ["userId"])
     .index("by_user_sort", ["userId", "sortOrder"])
     .index("by_list_id", ["listId"])
-    .index("by_user_active", ["userId", "tombstoned"]),
+    .index("by_user_list_id", ["userId", "listId"])
+    .index("by_user_active", ["userId", "tombstoned"])
+    .index("by_user_sync_version", ["userId", "syncVersion"]),
 
   /**
    * Tasks Projection
@@ -319,11 +519,21 @@ export default defineSchema({
     tombstoned: v.boolean(),
     tombstonedAt: v.optional(v.number()),
 
+    // Timestamp of the last write to each field (rows written before fieldClocks)
+    fieldTimestamps: v.optional(v.record(v.string(), v.number())),
+
+    // HLC of the last write to each field (field-level LWW merge)
+    fieldClocks: v.optional(v.record(v.string(), v.string())),
+
     // Last event ID that updated this projection
     lastEventId: v.string(),
+
+    // Per-user change version (for delta sync)
+    syncVersion: v.optional(v.number()),
   })
     .index("by_user", ["userId"])
     .index("by_task_id", ["taskId"])
+    .index("by_user_task", ["userId", "taskId"])
     .index("by_list", ["listId"])
     .index("by_user_list", ["userId", "listId"])
     .index("by_user_active", ["userId", "tombstoned"])
@@ -331,6 +541,11 @@ export default defineSchema({
     .index("by_user_flagged", ["userId", "flag"])
     .index("by_user_completed", ["userId", "completed"])
     .index("by_user_priority", ["userId", "priority"])
+    .index("by_user_sync_version", ["userId", "syncVersion"])
+    .index("by_user_list_order", ["userId", "listId", "tombstoned", "sortOrder"])
+    .index("by_user_completed_due", ["userId", "completed", "tombstoned", "dueDate", "dueTime"])
+    .index("by_user_flagged_due", ["userId", "flag", "completed", "tombstoned", "dueDate", "dueTime"])
+    .index("by_user_completed_at", ["userId", "completed", "tombstoned", "completedAt"])
     .searchIndex("search_tasks", {
       searchField: "title",
       filterFields: ["userId", "listId", "completed", "tombstoned"],
@@ -366,13 +581,106 @@ export default defineSchema({
     // Task count using this tag (denormalized)
     taskCount: v.optional(v.number()),
 
+    // Timestamp of the last write to each field (rows written before fieldClocks)
+    fieldTimestamps: v.optional(v.record(v.string(), v.number())),
+
+    // HLC of the last write to each field (field-level LWW merge)
+    fieldClocks: v.optional(v.record(v.string(), v.string())),
+
     // Last event ID that updated this projection
     lastEventId: v.string(),
+
+    // Per-user change version (for delta sync)
+    syncVersion: v.optional(v.number()),
   })
     .index("by_user", ["userId"])
     .index("by_tag_id", ["tagId"])
+    .index("by_user_tag", ["userId", "tagId"])
     .index("by_user_active", ["userId", "tombstoned"])
-    .index("by_user_name", ["userId", "name"]),
+    .index("by_user_name", ["userId", "name"])
+    .index("by_user_sync_version", ["userId", "syncVersion"]),
+
+  /**
+   * Task Tags Table
+   *
+   * One row per tag a task (deleted ones included) carries, so the tasks
+   * carrying a tag can be found through an index. Kept in step with
+   * tasksProjection.tags by the projector, rebuilds and compaction.
+   */
+  taskTags: defineTable({
+    userId: v.string(),
+    tagId: v.string(),
+    taskId: v.string(),
+  })
+    .index("by_user_tag", ["userId", "tagId", "taskId"])
+    .index("by_user_task", ["userId", "taskId"]),
+
+  /**
+   * Pending Tag Counts Table
+   *
+   * Task count changes for tags whose create hasn't been projected yet.
+   * The tag's row starts from the pending count when it is created.
+   */
+  pendingTagCounts: defineTable({
+    userId: v.string(),
+    tagId: v.string(),
+    delta: v.number(),
+  })
+    .index("by_user_tag", ["userId", "tagId"]),
+
+  /**
+   * Conflicts Table
+   *
+   * Edits the projector discarded or could not apply cleanly.
+   * Users can review them and either keep the winning state or re-apply
+   * the losing edit.
+   */
+  conflicts: defineTable({
+    // Owner user ID
+    userId: v.string(),
+
+    // Entity the conflict is about
+    entityType: v.union(v.literal("task"), v.literal("list"), v.literal("tag")),
+    entityId: v.string(),
+
+    // Conflict classification (matches ConflictType on the client)
+    conflictType: v.union(
+      v.literal("field_conflict"),
+      v.literal("delete_modify_conflict"),
+      v.literal("orphaned_child"),
+      v.literal("move_conflict"),
+      v.literal("reorder_conflict")
+    ),
+
+    // The event that lost
+    losingEventId: v.string(),
+    losingEventType: v.string(),
+    losingDeviceId: v.string(),
+    losingTimestamp: v.number(),
+
+    // Field values the losing event tried to write
+    losingValues: v.any(),
+
+    // Projection values for the same fields when the conflict was detected
+    winningState: v.any(),
+
+    // Last event applied to the entity when the conflict was detected
+    winningEventId: v.string(),
+
+    // Review status
+    status: v.union(v.literal("open"), v.literal("resolved")),
+    resolution: v.optional(v.union(v.literal("keep_winner"), v.literal("reapply"))),
+
+    // Event emitted to re-apply the losing edit
+    resolutionEventId: v.optional(v.string()),
+
+    // Timestamps
+    createdAt: v.number(),
+    resolvedAt: v.optional(v.number()),
+  })
+    .index("by_user_status", ["userId", "status", "createdAt"])
+    .index("by_losing_event", ["losingEventId"])
+    .index("by_entity", ["entityId"]),
 
   /**
    * User Consent Table
@@ -508,9 +816,27 @@ export default defineSchema({
     // Last synced event ID
     lastSyncedEventId: v.optional(v.string()),
 
+    // Last projection change version sent to the device
+    lastSyncedVersion: v.optional(v.number()),
+
     // Sync metadata
     lastSyncAt: v.number(),
 
+    // Highest event sequence number uploaded by the device
+    highestSequence: v.optional(v.number()),
+
+    // Sequence ranges at or below highestSequence not received yet
+    missingSequenceRanges: v.optional(v.array(v.object({
+      from: v.number(),
+      to: v.number(),
+    }))),
+
+    // Span of missing ranges dropped from tracking; they may still be missing
+    droppedSequenceRange: v.optional(v.object({
+      from: v.number(),
+      to: v.number(),
+    })),
+
     // Device info
     deviceInfo: v.optional(v.object({
       platform: v.string(),
@@ -521,4 +847,496 @@ export default defineSchema({
   })
     .index("by_user", ["userId"])
     .index("by_user_device", ["userId", "deviceId"]),
+
+  /**
+   * Sync Counters Table
+   *
+   * Per-user monotonic counter stamped onto projection rows as syncVersion.
+   * Delta sync cursors are positions in this sequence.
+   */
+  syncCounters: defineTable({
+    // User ID
+    userId: v.string(),
+
+    // Last issued sync version
+    version: v.number(),
+
+    // Last time the counter advanced
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  /**
+   * Idempotency Keys Table
+   *
+   * Stored responses of batch requests sent with an Idempotency-Key header,
+   * so a retried request gets the original response instead of re-running.
+   */
+  idempotencyKeys: defineTable({
+    // Scope of the key
+    userId: v.string(),
+    appId: v.string(),
+    key: v.string(),
+
+    // SHA-256 of the request body; a reused key with a new body is rejected
+    requestHash: v.string(),
+
+    // Response returned to the original request
+    response: v.any(),
+
+    // Timestamps
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_user_app_key", ["userId", "appId", "key"])
+    .index("by_expires", ["expiresAt"]),
+
+  /**
+   * Device Clocks Table
+   *
+   * Last hybrid logical clock issued per user and device (see clock.ts).
+   */
+  deviceClocks: defineTable({
+    // User and device the clock belongs to
+    userId: v.string(),
+    deviceId: v.string(),
+
+    // Last issued HLC components
+    wallTime: v.number(),
+    counter: v.number(),
+
+    // Last time the clock advanced (server time)
+    updatedAt: v.number(),
+  })
+    .index("by_user_device", ["userId", "deviceId"]),
+
+  /**
+   * Undo Actions Table
+   *
+   * Per user and device undo/redo stack. An action is a group of events
+   * undone together (one client event, or every event of a bulk operation).
+   */
+  undoActions: defineTable({
+    // User and device that performed the action
+    userId: v.string(),
+    deviceId: v.string(),
+
+    // Events that make up the action
+    eventIds: v.array(v.string()),
+
+    // done: can be undone; undone: can be redone
+    status: v.union(v.literal("done"), v.literal("undone")),
+
+    // Compensating events written by the latest undo or redo
+    compensatingEventIds: v.optional(v.array(v.string())),
+
+    // Timestamps (changedAt orders the stack)
+    createdAt: v.number(),
+    changedAt: v.number(),
+  })
+    .index("by_user", ["userId", "changedAt"])
+    .index("by_user_device", ["userId", "deviceId", "changedAt"])
+    .index("by_user_device_status", ["userId", "deviceId", "status", "changedAt"]),
+
+  /**
+   * Rate Limit Buckets Table
+   *
+   * Token buckets limiting events ingested per minute, one per user and
+   * one per device (see rateLimits.ts).
+   */
+  rateLimitBuckets: defineTable({
+    // Bucket owner; deviceId is unset for the user-wide bucket
+    userId: v.string(),
+    scope: v.union(v.literal("user"), v.literal("device")),
+    deviceId: v.optional(v.string()),
+
+    // Events currently available (fractional while refilling)
+    tokens: v.number(),
+
+    // When tokens was last brought up to date (server time)
+    refilledAt: v.number(),
+  })
+    .index("by_user_scope_device", ["userId", "scope", "deviceId"]),
+
+  /**
+   * Import Jobs Table
+   *
+   * Progress of NDJSON stream ingestions (POST /api/events/stream).
+   */
+  importJobs: defineTable({
+    // Caller
+    userId: v.string(),
+    deviceId: v.string(),
+
+    // receiving: the stored body is being split into chunks
+    // running: chunks are being ingested
+    status: v.union(
+      v.literal("receiving"),
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed")
+    ),
+
+    // Ingestion arguments, and the stored request body
+    consentSnapshotId: v.optional(v.string()),
+    sentAt: v.optional(v.number()),
+    storageId: v.optional(v.id("_storage")),
+
+    // Lines read from the stream, and lines whose events are committed
+    linesRead: v.number(),
+    linesCommitted: v.number(),
+
+    // Chunks stored, and the next one to ingest
+    chunksStored: v.optional(v.number()),
+    nextChunk: v.optional(v.number()),
+
+    // Per-event outcomes so far
+    acceptedCount: v.number(),
+    duplicateCount: v.number(),
+    rejectedCount: v.number(),
+    chunkCount: v.number(),
+
+    // First rejected lines, for the caller to fix and resend
+    failures: v.array(v.object({
+      line: v.number(),
+      eventId: v.optional(v.string()),
+      reason: v.string(),
+      message: v.optional(v.string()),
+    })),
+
+    // Why the job failed, if it did
+    lastError: v.optional(v.string()),
+
+    // Timestamps
+    startedAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_user", ["userId", "startedAt"]),
+
+  /**
+   * Import Chunks Table
+   *
+   * Lines of an import job waiting to be ingested, one chunk per document.
+   * Deleted once ingested.
+   */
+  importChunks: defineTable({
+    jobId: v.id("importJobs"),
+
+    // Position of the chunk in the stream
+    index: v.number(),
+
+    // Events that passed the shape check, and their line numbers
+    events: v.array(eventInputValidator),
+    lines: v.array(v.number()),
+
+    // Lines rejected while reading the stream
+    failures: v.array(v.object({
+      line: v.number(),
+      reason: v.string(),
+      message: v.optional(v.string()),
+    })),
+
+    // Last line of the stream covered by the chunk
+    lastLine: v.number(),
+  })
+    .index("by_job", ["jobId", "index"]),
+
+  /**
+   * Event Chains Table
+   *
+   * Head of each user's event hash chain (see chain.ts).
+   */
+  eventChains: defineTable({
+    userId: v.string(),
+
+    // Events in the chain, and the last one's hash
+    length: v.number(),
+    headHash: v.string(),
+    headEventId: v.string(),
+
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  /**
+   * Chain Verifications Table
+   *
+   * Progress and result of verifying a user's event hash chain.
+   */
+  chainVerifications: defineTable({
+    userId: v.string(),
+
+    status: v.union(
+      v.literal("running"),
+      v.literal("valid"),
+      v.literal("broken")
+    ),
+
+    // Next chain index to check, and the hash it must link to
+    nextIndex: v.number(),
+    expectedPrevHash: v.string(),
+
+    // Chain length and head hash when verification started
+    chainLength: v.number(),
+    chainHeadHash: v.string(),
+
+    // First broken link found
+    brokenLink: v.optional(v.object({
+      chainIndex: v.number(),
+      eventId: v.optional(v.string()),
+      problem: v.union(
+        v.literal("CONTENT_MODIFIED"),
+        v.literal("LINK_MISMATCH"),
+        v.literal("EVENT_MISSING"),
+        v.literal("HEAD_MISMATCH")
+      ),
+      expectedHash: v.optional(v.string()),
+      actualHash: v.optional(v.string()),
+    })),
+
+    // Timestamps
+    startedAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_user", ["userId", "startedAt"]),
+
+  /**
+   * Projection Snapshots Table
+   *
+   * A user's projection state as of a position in the event log, written by
+   * compaction. Rebuilds restore the latest ready snapshot and replay only
+   * the events after it (see compaction.ts).
+   */
+  projectionSnapshots: defineTable({
+    userId: v.string(),
+
+    status: v.union(v.literal("building"), v.literal("ready")),
+
+    // Position of the last event reflected in the snapshot
+    cutoffTimestamp: v.number(),
+    cutoffEventId: v.string(),
+
+    // Retention cutoff the snapshot was built for; every event stored before
+    // capture with a timestamp before it is reflected
+    coveredThrough: v.optional(v.number()),
+
+    // Events stored at or after this server time may be missing from the
+    // snapshot even if they sort before the cutoff (late uploads)
+    capturedAt: v.number(),
+
+    // Rows captured per projection table
+    listCount: v.number(),
+    taskCount: v.number(),
+    tagCount: v.number(),
+
+    // Timestamps
+    createdAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_user_status", ["userId", "status", "createdAt"]),
+
+  /**
+   * Snapshot Rows Table
+   *
+   * Projection rows belonging to a snapshot, without their document IDs
+   * and sync versions.
+   */
+  snapshotRows: defineTable({
+    snapshotId: v.id("projectionSnapshots"),
+    table: v.union(
+      v.literal("taskListsProjection"),
+      v.literal("tasksProjection"),
+      v.literal("tagsProjection")
+    ),
+    row: v.any(),
+  })
+    .index("by_snapshot_table", ["snapshotId", "table"]),
+
+  /**
+   * Archived Events Table
+   *
+   * Events moved out of the event log by compaction. Kept for audit, hash
+   * chain verification and task history; no longer replayed.
+   */
+  archivedEvents: defineTable({
+    // Copied from the event for lookups
+    userId: v.string(),
+    appId: v.string(),
+    eventId: v.string(),
+    timestamp: v.number(),
+    chainIndex: v.optional(v.number()),
+    entityId: v.optional(v.string()),
+
+    // The event document as stored (without _id and _creationTime)
+    event: v.any(),
+
+    // Compaction job that archived the event
+    compactionId: v.id("compactionJobs"),
+    archivedAt: v.number(),
+  })
+    .index("by_user_app_event", ["userId", "appId", "eventId"])
+    .index("by_user_chain", ["userId", "chainIndex"])
+    .index("by_user_entity", ["userId", "entityId", "timestamp", "eventId"]),
+
+  /**
+   * Compaction Jobs Table
+   *
+   * Progress of a compaction job (see compaction.ts).
+   */
+  compactionJobs: defineTable({
+    userId: v.string(),
+
+    // Job phase
+    status: v.union(
+      v.literal("restoring"),
+      v.literal("replaying"),
+      v.literal("capturing"),
+      v.literal("archiving"),
+      v.literal("cleaning"),
+      v.literal("completed")
+    ),
+
+    // Snapshot being written, and the one it builds on
+    snapshotId: v.id("projectionSnapshots"),
+    previousSnapshotId: v.optional(v.id("projectionSnapshots")),
+
+    // Events before this timestamp are snapshotted and may be archived
+    cutoffTimestamp: v.number(),
+
+    // Position of the last replayed event
+    cursorTimestamp: v.number(),
+    cursorEventId: v.string(),
+
+    // Table being walked and its pagination cursor
+    phaseTable: v.optional(v.number()),
+    phaseCursor: v.optional(v.union(v.string(), v.null())),
+
+    // Generation of the step chain; resuming bumps it so stale steps exit
+    stepToken: v.optional(v.number()),
+
+    // Progress
+    restoredCount: v.number(),
+    replayedCount: v.number(),
+    capturedCount: v.number(),
+    archivedCount: v.number(),
+    errorCount: v.number(),
+    lastError: v.optional(v.string()),
+
+    // Timestamps
+    startedAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_user", ["userId", "startedAt"]),
+
+  /**
+   * Integrity Reports Table
+   *
+   * Latest result of checking a user's denormalized projection counters
+   * against tasksProjection (one document per user).
+   */
+  integrityReports: defineTable({
+    // User ID
+    userId: v.string(),
+
+    // Counters that didn't match the recomputed value (the first 100), and
+    // how many there were in all
+    discrepancies: v.array(counterDiscrepancy),
+    discrepancyCount: v.optional(v.number()),
+
+    // Whether the discrepancies were repaired
+    repaired: v.boolean(),
+
+    // Rows checked
+    listsChecked: v.number(),
+    tagsChecked: v.number(),
+    tasksScanned: v.number(),
+
+    // Timestamps
+    checkedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  /**
+   * Integrity Checks Table
+   *
+   * A running counter check (at most one per user). It recounts
+   * tasksProjection into integrityCounts a page per step, then compares the
+   * lists and tags against those counts and writes the integrityReports row.
+   */
+  integrityChecks: defineTable({
+    userId: v.string(),
+
+    // Whether drifted counters are repaired
+    repair: v.boolean(),
+
+    // Check phase
+    phase: v.union(
+      v.literal("resetting"),
+      v.literal("counting"),
+      v.literal("lists"),
+      v.literal("tags"),
+      v.literal("cleaning")
+    ),
+
+    // Pagination cursor within the phase
+    cursor: v.optional(v.union(v.string(), v.null())),
+
+    // User's sync version the counts were taken at; any other projection
+    // write restarts the count
+    syncVersion: v.number(),
+    restarts: v.number(),
+
+    // Generation of the step chain; taking over a stale check bumps it
+    stepToken: v.number(),
+
+    // Why the check stopped without a report, if it did
+    abandonReason: v.optional(v.string()),
+
+    // Results so far (discrepancies capped like the report's)
+    discrepancies: v.array(counterDiscrepancy),
+    discrepancyCount: v.number(),
+    listsChecked: v.number(),
+    tagsChecked: v.number(),
+    tasksScanned: v.number(),
+
+    // Timestamps
+    startedAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  /**
+   * Integrity Counts Table
+   *
+   * Task counts recomputed by a running integrity check, per list and tag.
+   */
+  integrityCounts: defineTable({
+    userId: v.string(),
+    entityType: v.union(v.literal("list"), v.literal("tag")),
+    entityId: v.string(),
+    taskCount: v.number(),
+    completedTaskCount: v.number(),
+  })
+    .index("by_user_entity", ["userId", "entityType", "entityId"]),
+
+  /**
+   * User Profiles Table
+   *
+   * Per-user settings used when serving requests (one document per user).
+   */
+  userProfiles: defineTable({
+    // User ID
+    userId: v.string(),
+
+    // IANA time zone (e.g. "Europe/Berlin") for Today and Scheduled views
+    timeZone: v.string(),
+
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
 });
@@ -0,0 +1,222 @@
+import { MutationCtx, QueryCtx } from "./_generated/server";
+import { EventInput, EventResult } from "./ingestion";
+
+/**
+ * Upload Sequence Module
+ *
+ * Each device numbers the events it uploads 1, 2, 3, ... Background uploads
+ * (e.g. the iOS BGUploadScheduler) can be lost or arrive out of order, and
+ * without sequence numbers the server can't tell. The device's syncState
+ * records the highest sequence received and the ranges below it that are
+ * still missing; batch responses report them so the device can replay
+ * the missing uploads instead of silently diverging.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SequenceRange {
+  from: number;
+  to: number;
+}
+
+export interface SequenceReport {
+  // Highest sequence number received from the device
+  highestSequence: number;
+
+  // Every sequence up to this one has been received
+  contiguousThrough: number;
+
+  // Ranges the device should upload again
+  missingRanges: SequenceRange[];
+
+  // Span of older missing ranges no longer tracked; sequences in it may
+  // still be missing, so the device should upload all of it in order. It
+  // shrinks as sequences from its start arrive and is cleared once empty
+  droppedRange: SequenceRange | null;
+
+  // Whether this upload arrived out of order (filled a gap or went backwards)
+  outOfOrder: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Missing ranges kept per device; older ones move to the dropped span
+const MAX_MISSING_RANGES = 100;
+
+// ============================================================================
+// Tracking
+// ============================================================================
+
+/**
+ * Check that a client-supplied sequence number is usable
+ */
+export function isValidSequence(sequence: unknown): boolean {
+  return typeof sequence === "number" && Number.isSafeInteger(sequence) && sequence > 0;
+}
+
+/**
+ * Sequence numbers of a batch's events that count as received
+ *
+ * Events the device must resend (retryable rejections) still count as
+ * missing. Events rejected for good count as received, since replaying
+ * them can't help.
+ */
+export function receivedSequences(events: EventInput[], results: EventResult[]): number[] {
+  return events.flatMap((event, i) =>
+    event.sequence !== undefined &&
+    !(results[i].status === "rejected" && results[i].retryable)
+      ? [event.sequence]
+      : []
+  );
+}
+
+/**
+ * Record sequence numbers received from a device and report its gaps
+ *
+ * Sequences are recorded in upload order, so an upload that skips ahead
+ * opens a missing range and a later upload of those sequences closes it.
+ */
+export async function recordDeviceSequences(
+  ctx: MutationCtx,
+  userId: string,
+  deviceId: string,
+  sequences: number[]
+): Promise<SequenceReport> {
+  const state = await ctx.db
+    .query("syncState")
+    .withIndex("by_user_device", (q) => q.eq("userId", userId).eq("deviceId", deviceId))
+    .first();
+
+  let highest = state?.highestSequence ?? 0;
+  let missing: SequenceRange[] = state?.missingSequenceRanges ?? [];
+  let dropped = state?.droppedSequenceRange ?? null;
+  let outOfOrder = false;
+
+  for (const sequence of sequences) {
+    if (sequence > highest) {
+      if (sequence > highest + 1) {
+        missing.push({ from: highest + 1, to: sequence - 1 });
+      }
+      highest = sequence;
+      continue;
+    }
+
+    // At or below the highest: a late upload filling a gap, or a resend
+    outOfOrder = true;
+    missing = removeFromRanges(missing, sequence);
+
+    // The dropped span is replayed in order, so it shrinks from the front
+    if (dropped && sequence === dropped.from) {
+      dropped = dropped.from < dropped.to ? { from: dropped.from + 1, to: dropped.to } : null;
+    }
+  }
+
+  if (missing.length > MAX_MISSING_RANGES) {
+    console.warn(
+      `Device ${deviceId} of user ${userId} has ${missing.length} missing sequence ranges; ` +
+      `dropping the oldest`
+    );
+    const oldest = missing.slice(0, missing.length - MAX_MISSING_RANGES);
+    dropped = {
+      from: dropped?.from ?? oldest[0].from,
+      to: oldest[oldest.length - 1].to,
+    };
+    missing = missing.slice(missing.length - MAX_MISSING_RANGES);
+  }
+
+  if (sequences.length > 0) {
+    const now = Date.now();
+    if (state) {
+      await ctx.db.patch(state._id, {
+        highestSequence: highest,
+        missingSequenceRanges: missing,
+        droppedSequenceRange: dropped ?? undefined,
+        lastSyncAt: now,
+      });
+    } else {
+      await ctx.db.insert("syncState", {
+        userId,
+        deviceId,
+        lastSyncedTimestamp: 0,
+        lastSyncAt: now,
+        highestSequence: highest,
+        missingSequenceRanges: missing,
+        droppedSequenceRange: dropped ?? undefined,
+      });
+    }
+  }
+
+  return buildReport(highest, missing, dropped, outOfOrder);
+}
+
+/**
+ * Report a device's sequence gaps without recording anything
+ */
+export async function getDeviceSequenceReport(
+  ctx: QueryCtx,
+  userId: string,
+  deviceId: string
+): Promise<SequenceReport> {
+  const state = await ctx.db
+    .query("syncState")
+    .withIndex("by_user_device", (q) => q.eq("userId", userId).eq("deviceId", deviceId))
+    .first();
+
+  return buildReport(
+    state?.highestSequence ?? 0,
+    state?.missingSequenceRanges ?? [],
+    state?.droppedSequenceRange ?? null,
+    false
+  );
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Build a device's report; nothing past the start of a dropped span counts
+ * as contiguous, since the server no longer knows what arrived there
+ */
+function buildReport(
+  highestSequence: number,
+  missingRanges: SequenceRange[],
+  droppedRange: SequenceRange | null,
+  outOfOrder: boolean
+): SequenceReport {
+  const firstGap = droppedRange ?? missingRanges[0];
+
+  return {
+    highestSequence,
+    contiguousThrough: firstGap ? firstGap.from - 1 : highestSequence,
+    missingRanges,
+    droppedRange,
+    outOfOrder,
+  };
+}
+
+/**
+ * Remove one sequence from a sorted list of ranges, splitting as needed
+ */
+function removeFromRanges(ranges: SequenceRange[], sequence: number): SequenceRange[] {
+  const result: SequenceRange[] = [];
+
+  for (const range of ranges) {
+    if (sequence < range.from || sequence > range.to) {
+      result.push(range);
+      continue;
+    }
+    if (range.from < sequence) {
+      result.push({ from: range.from, to: sequence - 1 });
+    }
+    if (sequence < range.to) {
+      result.push({ from: sequence + 1, to: range.to });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,290 @@
+import { internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getDeviceSequenceReport } from "./sequences";
+
+/**
+ * Delta Sync Module
+ *
+ * This module lets devices pull projection changes since an opaque cursor
+ * instead of refetching every list, task and tag on launch.
+ *
+ * Every projection write stamps the row with the next value of a per-user
+ * counter (syncVersion). A cursor is a position in that sequence, so a
+ * device only receives rows written after its last pull, tombstones included.
+ * Rows written before versioning have no syncVersion until
+ * backfillSyncVersions stamps them; run it once after deploying
+ * (`npx convex run sync:backfillSyncVersions`).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SyncCursor {
+  version: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Largest page of changes a device may request
+export const MAX_SYNC_PAGE_SIZE = 500;
+
+// Projection tables carrying a syncVersion, in backfill order
+const VERSIONED_TABLES = ["taskListsProjection", "tasksProjection", "tagsProjection"] as const;
+
+// Rows checked per backfill run
+const BACKFILL_PAGE_SIZE = 100;
+
+// ============================================================================
+// Sync Version Counter
+// ============================================================================
+
+/**
+ * Issue the next sync version for a user
+ *
+ * Called by the projector on every projection write. The counter document
+ * serializes concurrent writers, so versions are strictly increasing per user.
+ */
+export async function nextSyncVersion(ctx: MutationCtx, userId: string): Promise<number> {
+  const now = Date.now();
+  const counter = await ctx.db
+    .query("syncCounters")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+
+  if (!counter) {
+    await ctx.db.insert("syncCounters", { userId, version: 1, updatedAt: now });
+    return 1;
+  }
+
+  const version = counter.version + 1;
+  await ctx.db.patch(counter._id, { version, updatedAt: now });
+  return version;
+}
+
+// ============================================================================
+// Cursor Encoding
+// ============================================================================
+
+/**
+ * Encode a cursor as an opaque string
+ */
+export function encodeSyncCursor(cursor: SyncCursor): string {
+  return btoa(JSON.stringify(cursor));
+}
+
+/**
+ * Decode an opaque cursor, returning null if it is malformed
+ */
+export function decodeSyncCursor(cursor: string): SyncCursor | null {
+  try {
+    const decoded = JSON.parse(atob(cursor));
+    if (typeof decoded?.version !== "number" || decoded.version < 0) {
+      return null;
+    }
+    return { version: decoded.version };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Internal Queries
+// ============================================================================
+
+/**
+ * Query projection changes since a sync version
+ *
+ * Returns lists, tasks and tags (including tombstoned rows) written after
+ * `sinceVersion`, ordered by version and capped at `limit` rows overall.
+ */
+export const queryChanges = internalQuery({
+  args: {
+    userId: v.string(),
+    sinceVersion: v.number(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 500;
+
+    const [lists, tasks, tags] = await Promise.all([
+      ctx.db
+        .query("taskListsProjection")
+        .withIndex("by_user_sync_version", (q) =>
+          q.eq("userId", args.userId).gt("syncVersion", args.sinceVersion)
+        )
+        .take(limit + 1),
+      ctx.db
+        .query("tasksProjection")
+        .withIndex("by_user_sync_version", (q) =>
+          q.eq("userId", args.userId).gt("syncVersion", args.sinceVersion)
+        )
+        .take(limit + 1),
+      ctx.db
+        .query("tagsProjection")
+        .withIndex("by_user_sync_version", (q) =>
+          q.eq("userId", args.userId).gt("syncVersion", args.sinceVersion)
+        )
+        .take(limit + 1),
+    ]);
+
+    // Merge the three streams by version and keep the first `limit` changes
+    const changes = [
+      ...lists.map((row) => ({ kind: "list" as const, row })),
+      ...tasks.map((row) => ({ kind: "task" as const, row })),
+      ...tags.map((row) => ({ kind: "tag" as const, row })),
+    ].sort((a, b) => (a.row.syncVersion ?? 0) - (b.row.syncVersion ?? 0));
+
+    const page = changes.slice(0, limit);
+    const hasMore = changes.length > limit;
+    const last = page[page.length - 1];
+    const version = last ? last.row.syncVersion ?? args.sinceVersion : args.sinceVersion;
+
+    return {
+      lists: page
+        .filter((c) => c.kind === "list")
+        .map((c) => c.row as Doc<"taskListsProjection">),
+      tasks: page
+        .filter((c) => c.kind === "task")
+        .map((c) => c.row as Doc<"tasksProjection">),
+      tags: page
+        .filter((c) => c.kind === "tag")
+        .map((c) => c.row as Doc<"tagsProjection">),
+      cursor: encodeSyncCursor({ version }),
+      version,
+      hasMore,
+      lastEventId: last?.row.lastEventId,
+      lastTimestamp: last?.row.updatedAt,
+    };
+  },
+});
+
+/**
+ * Get the sync state for a device
+ */
+export const getSyncState = internalQuery({
+  args: {
+    userId: v.string(),
+    deviceId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const state = await ctx.db
+      .query("syncState")
+      .withIndex("by_user_device", (q) =>
+        q.eq("userId", args.userId).eq("deviceId", args.deviceId)
+      )
+      .first();
+
+    const counter = await ctx.db
+      .query("syncCounters")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+
+    const lastSyncedVersion = state?.lastSyncedVersion;
+
+    return {
+      cursor: lastSyncedVersion !== undefined
+        ? encodeSyncCursor({ version: lastSyncedVersion })
+        : null,
+      serverVersion: counter?.version ?? 0,
+      lastSyncAt: state?.lastSyncAt ?? null,
+      uploads: await getDeviceSequenceReport(ctx, args.userId, args.deviceId),
+    };
+  },
+});
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Record how far a device has synced
+ *
+ * Never moves a device's position backwards, so a stale retry of an older
+ * cursor can't cause changes to be resent as if they were new.
+ */
+export const recordSyncProgress = internalMutation({
+  args: {
+    userId: v.string(),
+    deviceId: v.string(),
+    version: v.number(),
+    lastEventId: v.optional(v.string()),
+    lastTimestamp: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    const existing = await ctx.db
+      .query("syncState")
+      .withIndex("by_user_device", (q) =>
+        q.eq("userId", args.userId).eq("deviceId", args.deviceId)
+      )
+      .first();
+
+    if (!existing) {
+      await ctx.db.insert("syncState", {
+        userId: args.userId,
+        deviceId: args.deviceId,
+        lastSyncedTimestamp: args.lastTimestamp ?? 0,
+        lastSyncedEventId: args.lastEventId,
+        lastSyncedVersion: args.version,
+        lastSyncAt: now,
+      });
+      return;
+    }
+
+    if (args.version <= (existing.lastSyncedVersion ?? 0)) {
+      await ctx.db.patch(existing._id, { lastSyncAt: now });
+      return;
+    }
+
+    await ctx.db.patch(existing._id, {
+      lastSyncedTimestamp: args.lastTimestamp ?? existing.lastSyncedTimestamp,
+      lastSyncedEventId: args.lastEventId ?? existing.lastSyncedEventId,
+      lastSyncedVersion: args.version,
+      lastSyncAt: now,
+    });
+  },
+});
+
+/**
+ * Stamp a syncVersion on projection rows written before versioning
+ *
+ * Pages through each versioned table in turn, scheduling itself until every
+ * row has a version. Unversioned rows are otherwise invisible to delta sync
+ * until their next write.
+ */
+export const backfillSyncVersions = internalMutation({
+  args: {
+    table: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const table = args.table ?? 0;
+    const page = await ctx.db
+      .query(VERSIONED_TABLES[table])
+      .paginate({ numItems: BACKFILL_PAGE_SIZE, cursor: args.cursor ?? null });
+
+    let stamped = 0;
+    for (const row of page.page) {
+      if (row.syncVersion === undefined) {
+        await ctx.db.patch(row._id, { syncVersion: await nextSyncVersion(ctx, row.userId) });
+        stamped++;
+      }
+    }
+
+    const next = page.isDone
+      ? { table: table + 1, cursor: null }
+      : { table, cursor: page.continueCursor };
+
+    if (next.table < VERSIONED_TABLES.length) {
+      await ctx.scheduler.runAfter(0, internal.sync.backfillSyncVersions, next);
+    }
+
+    return { table: VERSIONED_TABLES[table], stamped, hasMore: next.table < VERSIONED_TABLES.length };
+  },
+});
@@ -1,29 +1,103 @@
-import { httpRouter } from "convex/server";
-import { httpAction, internalMutation, internalQuery } from "./_generated/server";
+import { httpRouter, OrderedQuery } from "convex/server";
+import { ActionCtx, internalMutation, internalQuery, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import { DataModel, Doc } from "./_generated/dataModel";
 import { api, internal } from "./_generated/api";
+import { decodeSyncCursor, MAX_SYNC_PAGE_SIZE } from "./sync";
+import { EventInput, EventResult, IngestResult, ingestEvents } from "./ingestion";
+import { eventInputValidator } from "./schema";
 import {
-  authenticateRequest,
-  createAuthErrorResponse,
-  extractDeviceId,
-  AuthResult,
-  AuthError,
-} from "./auth";
+  findIdempotencyRecord,
+  hashRequestBody,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+  storeIdempotencyRecord,
+} from "./idempotency";
+import { getDeviceSequenceReport, receivedSequences, recordDeviceSequences } from "./sequences";
+import { consumeIngestionQuota, MAX_BATCH_EVENTS, MAX_REQUEST_BYTES } from "./rateLimits";
+import { createApiRouter, jsonResponse } from "./router";
+import { AuthResult } from "./auth";
+import { ValidationIssue } from "./eventRegistry";
+import {
+  buildCommand,
+  buildEvent,
+  buildReorderCommand,
+  checkEvents,
+  LIST_FIELDS,
+  newEntityId,
+  TAG_FIELDS,
+  TASK_FIELDS,
+} from "./commands";
+import {
+  buildBulkEvents,
+  BulkPlan,
+  BulkTaskResult,
+  MAX_BULK_TASKS,
+  MAX_FILTER_SCAN,
+  parseBulkRequest,
+} from "./bulk";
+import {
+  addDays,
+  classifyDue,
+  isValidTimeZone,
+  LocalClock,
+  localClock,
+  resolveDue,
+} from "./dueDates";
+import {
+  decodePageCursor,
+  encodePageCursor,
+  pagePositionValidator,
+  paginatePhases,
+  parsePageSize,
+} from "./pagination";
 
 /**
  * Tasks App HTTP API
  *
  * This module defines the HTTP API for the Tasks App.
  * All endpoints require Clerk JWT authentication and consent verification.
+ * Routes are registered through router.ts, which handles path params,
+ * authentication and unexpected errors.
  *
  * Endpoints:
  * - POST /api/events/batch - Insert batch of events
+ * - POST /api/events/stream - Ingest NDJSON events as an import job
+ * - GET /api/events/stream - List recent import jobs
+ * - GET /api/events/stream/:jobId - Get an import job's progress
+ * - GET /api/events/chain - Get event hash chain verification status
+ * - POST /api/events/chain/verify - Verify the event hash chain
  * - GET /api/lists - Get all lists for user
  * - GET /api/lists/:listId/tasks - Get tasks for a list
  * - GET /api/tasks/smart/:viewType - Get tasks by smart view
  * - GET /api/tasks/search - Search tasks
  * - GET /api/tasks/:taskId - Get single task detail
+ * - GET /api/tasks/:taskId/history - Get a task's change history
  * - GET /api/tags - Get all tags for user
+ * - POST /api/tasks - Create a task
+ * - PATCH /api/tasks/:taskId - Update a task
+ * - DELETE /api/tasks/:taskId - Delete a task
+ * - POST /api/tasks/:taskId/complete - Complete a task
+ * - POST /api/tasks/:taskId/uncomplete - Uncomplete a task
+ * - POST /api/tasks/:taskId/move - Move a task to another list
+ * - POST /api/tasks/:taskId/tags/:tagId - Add a tag to a task
+ * - DELETE /api/tasks/:taskId/tags/:tagId - Remove a tag from a task
+ * - POST /api/lists/:listId/tasks/reorder - Reorder a list's tasks
+ * - POST /api/tasks/bulk - Apply one operation to many tasks
+ * - POST /api/lists - Create a list
+ * - POST /api/lists/reorder - Reorder lists
+ * - PATCH /api/lists/:listId - Update a list
+ * - DELETE /api/lists/:listId - Delete a list and its tasks
+ * - POST /api/tags - Create a tag
+ * - PATCH /api/tags/:tagId - Update a tag
+ * - DELETE /api/tags/:tagId - Delete a tag
+ * - GET /api/sync/changes - Get projection changes since a cursor
+ * - GET /api/sync/state - Get sync state for the calling device
+ * - GET /api/conflicts - List conflicts recorded by the projector
+ * - POST /api/conflicts/resolve - Resolve a conflict
+ * - POST /api/undo - Undo an action with compensating events
+ * - POST /api/redo - Redo the last undone action
+ * - GET /api/profile - Get profile settings
+ * - PATCH /api/profile - Update profile settings (time zone)
  */
 
 // ============================================================================
@@ -31,6 +105,7 @@ import {
 // ============================================================================
 
 const http = httpRouter();
+const router = createApiRouter(http);
 
 // ============================================================================
 // Event Ingestion
@@ -41,84 +116,309 @@ const http = httpRouter();
  *
  * Insert a batch of events with JWT + consent verification.
  * Events are validated, stored, and processed asynchronously.
+ * Each event gets its own result (accepted, duplicate or rejected with a
+ * reason code and a retryable flag), so the client can drop, retry or
+ * surface events individually instead of resending the whole batch.
+ *
+ * Body: { events, consentSnapshotId, sentAt?, atomic? }. `sentAt` is the
+ * device clock at send time; the server uses it to correct event timestamps
+ * for clock skew before stamping each event's hybrid logical clock. The
+ * response's `clockOffsetMs` is the correction applied, or null without
+ * `sentAt` (timestamps are then used uncorrected, and events more than a
+ * week old are rejected with CLOCK_SKEW). With
+ * `atomic: true` the batch is all-or-nothing: if any event is rejected,
+ * none are written or projected and the response is 422.
+ *
+ * Events may carry a per-device `sequence` (1, 2, 3, ...). The response's
+ * `sequence` report lists the ranges the server hasn't received, so a lost
+ * background upload can be replayed. Past 100 gaps the oldest are merged
+ * into `droppedRange`, which the device should replay in full, in order.
+ *
+ * With an Idempotency-Key header, a retry of the same request returns the
+ * stored response of the first one (marked Idempotent-Replayed: true).
+ *
+ * Oversized requests (body or event count) get 413; callers over their
+ * per-user or per-device event rate get 429. Both carry Retry-After.
  */
-http.route({
+router.route({
   path: "/api/events/batch",
   method: "POST",
-  handler: httpAction(async (ctx, request) => {
-    // Authenticate request
-    const authResult = await authenticateRequest(request, ctx);
-    if (!authResult.success) {
-      return createAuthErrorResponse(authResult as AuthError);
+  errorMessage: "Failed to process events",
+  errorDetails: true,
+  handler: async (ctx, request, { auth, deviceId }) => {
+    // Optional Idempotency-Key for safely retrying the whole request
+    const idempotencyKey = readIdempotencyKey(request);
+    if (idempotencyKey === null) {
+      return createInvalidIdempotencyKeyResponse();
     }
 
-    const auth = authResult as AuthResult;
-    const deviceId = extractDeviceId(request, auth);
+    // Reject oversized bodies before reading them where the client declares the size
+    const contentLength = Number(request.headers.get("Content-Length") ?? 0);
+    if (contentLength > MAX_REQUEST_BYTES) {
+      return createPayloadTooLargeResponse(`Request body exceeds ${MAX_REQUEST_BYTES} bytes`);
+    }
 
-    try {
-      // Parse request body
-      const body = await request.json();
-      const { events, consentSnapshotId } = body as {
-        events: EventInput[];
-        consentSnapshotId: string;
-      };
+    // Parse request body
+    const rawBody = await request.text();
+    if (new TextEncoder().encode(rawBody).length > MAX_REQUEST_BYTES) {
+      return createPayloadTooLargeResponse(`Request body exceeds ${MAX_REQUEST_BYTES} bytes`);
+    }
 
-      if (!events || !Array.isArray(events)) {
-        return new Response(
-          JSON.stringify({ error: "Invalid request: events array required" }),
-          { status: 400, headers: { "Content-Type": "application/json" } }
-        );
-      }
+    const body = JSON.parse(rawBody);
+    const { events, consentSnapshotId, sentAt, atomic } = body as {
+      events: EventInput[];
+      consentSnapshotId: string;
+      sentAt?: number;
+      atomic?: boolean;
+    };
 
-      if (!consentSnapshotId) {
-        return new Response(
-          JSON.stringify({ error: "Invalid request: consentSnapshotId required" }),
-          { status: 400, headers: { "Content-Type": "application/json" } }
-        );
-      }
+    if (!events || !Array.isArray(events)) {
+      return jsonResponse({ error: "Invalid request: events array required" }, 400);
+    }
 
-      // Verify consent is valid
-      const consentValid = await ctx.runQuery(internal.consent.verifyConsentSnapshot, {
-        userId: auth.userId,
-        snapshotId: consentSnapshotId,
-      });
+    if (events.length > MAX_BATCH_EVENTS) {
+      return createPayloadTooLargeResponse(
+        `Batch has ${events.length} events; split it into batches of at most ${MAX_BATCH_EVENTS}`
+      );
+    }
+
+    if (!consentSnapshotId) {
+      return jsonResponse({ error: "Invalid request: consentSnapshotId required" }, 400);
+    }
+
+    // Verify consent is valid
+    const consentValid = await ctx.runQuery(internal.consent.verifyConsentSnapshot, {
+      userId: auth.userId,
+      snapshotId: consentSnapshotId,
+    });
 
-      if (!consentValid) {
-        return new Response(
-          JSON.stringify({ error: "Invalid or expired consent snapshot" }),
-          { status: 403, headers: { "Content-Type": "application/json" } }
-        );
+    if (!consentValid) {
+      return jsonResponse({ error: "Invalid or expired consent snapshot" }, 403);
+    }
+
+    // Process events in batch
+    const result = await ctx.runMutation(internal.tasks.insertEventBatch, {
+      userId: auth.userId,
+      deviceId,
+      appId: "com.orion.tasks",
+      events,
+      consentSnapshotId,
+      sentAt: typeof sentAt === "number" ? sentAt : undefined,
+      atomic: atomic === true,
+      idempotencyKey,
+      requestHash: idempotencyKey !== undefined ? await hashRequestBody(rawBody) : undefined,
+    });
+
+    if (!result.success) {
+      if (result.code === "RATE_LIMITED") {
+        return jsonResponse(result, 429, {
+          "Retry-After": String(Math.ceil((result.retryAfterMs ?? 0) / 1000)),
+        });
       }
+      return jsonResponse(result, 422);
+    }
 
-      // Process events in batch
-      const result = await ctx.runMutation(internal.tasks.insertEventBatch, {
-        userId: auth.userId,
-        deviceId,
-        appId: "com.orion.tasks",
-        events,
-        consentSnapshotId,
-      });
+    const headers: Record<string, string> = {};
+    if (result.replayed) {
+      headers["Idempotent-Replayed"] = "true";
+    }
 
-      return new Response(
-        JSON.stringify({
-          success: true,
-          processed: result.processed,
+    // An aborted atomic batch wrote nothing
+    if (result.aborted) {
+      return jsonResponse(
+        {
+          success: false,
+          code: "BATCH_ABORTED",
+          error: "Atomic batch rejected; no events were written",
+          processed: 0,
           failed: result.failed,
-          eventIds: result.eventIds,
-        }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
-    } catch (error) {
-      console.error("Error processing event batch:", error);
-      return new Response(
-        JSON.stringify({
-          error: "Failed to process events",
-          details: error instanceof Error ? error.message : "Unknown error",
-        }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
+          results: result.results,
+          clockOffsetMs: result.clockOffsetMs ?? null,
+          sequence: result.sequence,
+        },
+        422,
+        headers
       );
     }
-  }),
+
+    return jsonResponse(
+      {
+        success: true,
+        processed: result.processed,
+        failed: result.failed,
+        results: result.results,
+        clockOffsetMs: result.clockOffsetMs ?? null,
+        sequence: result.sequence,
+      },
+      200,
+      headers
+    );
+  },
+});
+
+/**
+ * Read the optional Idempotency-Key header; null if it's malformed
+ */
+function readIdempotencyKey(request: Request): string | undefined | null {
+  const key = request.headers.get("Idempotency-Key") ?? undefined;
+  if (key !== undefined && (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH)) {
+    return null;
+  }
+  return key;
+}
+
+function createInvalidIdempotencyKeyResponse(): Response {
+  return jsonResponse(
+    { error: `Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters` },
+    400
+  );
+}
+
+/**
+ * 413 response for a batch that is too large to accept
+ *
+ * Retry-After is 0: the same request will never fit, but split batches can
+ * be sent right away.
+ */
+function createPayloadTooLargeResponse(error: string): Response {
+  return jsonResponse(
+    { error, maxEvents: MAX_BATCH_EVENTS, maxBytes: MAX_REQUEST_BYTES },
+    413,
+    { "Retry-After": "0" }
+  );
+}
+
+/**
+ * POST /api/events/stream
+ *
+ * Ingest newline-delimited JSON events (one event per line) for imports and
+ * migrations too large for a single batch. The body is stored and the
+ * request answered with 202 and the import job right away; the lines are
+ * then ingested in the background in chunks, with the same validation,
+ * rate limits and sequence tracking as the batch endpoint (see imports.ts).
+ * Poll GET /api/events/stream/:jobId for progress and per-line rejections.
+ *
+ * Query: consentSnapshotId (required), sentAt? (device clock at send time;
+ * required to import events more than a week old).
+ */
+router.route({
+  path: "/api/events/stream",
+  method: "POST",
+  errorMessage: "Failed to process event stream",
+  handler: async (ctx, request, { auth, deviceId, url }) => {
+    const consentSnapshotId = url.searchParams.get("consentSnapshotId");
+    const sentAtParam = url.searchParams.get("sentAt");
+    const sentAt = sentAtParam !== null ? Number(sentAtParam) : undefined;
+
+    if (!consentSnapshotId) {
+      return jsonResponse({ error: "Invalid request: consentSnapshotId required" }, 400);
+    }
+
+    if (!request.body) {
+      return jsonResponse({ error: "Invalid request: NDJSON body required" }, 400);
+    }
+
+    const consentValid = await ctx.runQuery(internal.consent.verifyConsentSnapshot, {
+      userId: auth.userId,
+      snapshotId: consentSnapshotId,
+    });
+
+    if (!consentValid) {
+      return jsonResponse({ error: "Invalid or expired consent snapshot" }, 403);
+    }
+
+    const storageId = await ctx.storage.store(await request.blob());
+
+    const jobId = await ctx.runMutation(internal.imports.createImportJob, {
+      userId: auth.userId,
+      deviceId,
+      consentSnapshotId,
+      sentAt: sentAt !== undefined && Number.isFinite(sentAt) ? sentAt : undefined,
+      storageId,
+    });
+
+    const job = await ctx.runQuery(internal.imports.getImportJob, { userId: auth.userId, jobId });
+    return jsonResponse(job, 202, { Location: `/api/events/stream/${jobId}` });
+  },
+});
+
+/**
+ * GET /api/events/stream
+ *
+ * List the user's most recent import jobs, e.g. to find a running one.
+ */
+router.route({
+  path: "/api/events/stream",
+  method: "GET",
+  errorMessage: "Failed to fetch import jobs",
+  handler: async (ctx, _request, { auth }) => {
+    const jobs = await ctx.runQuery(internal.imports.listImportJobs, { userId: auth.userId });
+
+    return jsonResponse({ jobs });
+  },
+});
+
+/**
+ * GET /api/events/stream/:jobId
+ *
+ * Get an import job's progress.
+ */
+router.route({
+  path: "/api/events/stream/:jobId",
+  method: "GET",
+  errorMessage: "Failed to fetch import job",
+  handler: async (ctx, _request, { auth, params }) => {
+    const job = await ctx.runQuery(internal.imports.getImportJob, {
+      userId: auth.userId,
+      jobId: params.jobId,
+    });
+
+    if (!job) {
+      return jsonResponse({ error: "Import job not found" }, 404);
+    }
+
+    return jsonResponse(job);
+  },
+});
+
+/**
+ * GET /api/events/chain
+ *
+ * Get the caller's event hash chain head and its latest verification,
+ * including the first broken link if verification found one.
+ */
+router.route({
+  path: "/api/events/chain",
+  method: "GET",
+  errorMessage: "Failed to fetch chain status",
+  handler: async (ctx, _request, { auth }) => {
+    const status = await ctx.runQuery(internal.chain.getChainStatus, { userId: auth.userId });
+
+    return jsonResponse(status);
+  },
+});
+
+/**
+ * POST /api/events/chain/verify
+ *
+ * Start verifying the caller's event hash chain. Poll GET /api/events/chain
+ * for the result.
+ */
+router.route({
+  path: "/api/events/chain/verify",
+  method: "POST",
+  errorMessage: "Failed to start chain verification",
+  handler: async (ctx, _request, { auth }) => {
+    const result = await ctx.runMutation(internal.chain.startChainVerification, {
+      userId: auth.userId,
+    });
+
+    if (!result.success) {
+      return jsonResponse(result, 409);
+    }
+
+    return jsonResponse(result, 202);
+  },
 });
 
 // ============================================================================
@@ -130,391 +430,1540 @@ http.route({
  *
  * Get all lists for the authenticated user.
  */
-http.route({
+router.route({
   path: "/api/lists",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
-    const authResult = await authenticateRequest(request, ctx);
-    if (!authResult.success) {
-      return createAuthErrorResponse(authResult as AuthError);
-    }
-
-    const auth = authResult as AuthResult;
-
-    try {
-      const lists = await ctx.runQuery(internal.tasks.queryListsForUser, {
-        userId: auth.userId,
-        includeSmartLists: true,
-      });
+  errorMessage: "Failed to fetch lists",
+  handler: async (ctx, _request, { auth }) => {
+    const lists = await ctx.runQuery(internal.tasks.queryListsForUser, {
+      userId: auth.userId,
+      includeSmartLists: true,
+    });
 
-      return new Response(
-        JSON.stringify({ lists }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
-    } catch (error) {
-      console.error("Error fetching lists:", error);
-      return new Response(
-        JSON.stringify({ error: "Failed to fetch lists" }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
-    }
-  }),
+    return jsonResponse({ lists });
+  },
 });
 
 // ============================================================================
 // Task Queries
 // ============================================================================
 
+// Smart view reads one response may make to fill its page
+const MAX_SMART_VIEW_FETCHES = 5;
+
+// Tasks a smart view's totalCount counts up to, where no counter covers it
+const MAX_SMART_VIEW_COUNT = 1000;
+
 /**
  * GET /api/lists/:listId/tasks
  *
- * Get tasks for a specific list.
+ * Get a page of tasks for a specific list. Pass the response's `nextCursor`
+ * as `cursor` to get the next page; it is absent on the last page.
+ * `totalCount` is the number of tasks in the list (incomplete ones only
+ * with includeCompleted=false).
  */
-http.route({
+router.route({
   path: "/api/lists/:listId/tasks",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
-    const authResult = await authenticateRequest(request, ctx);
-    if (!authResult.success) {
-      return createAuthErrorResponse(authResult as AuthError);
+  errorMessage: "Failed to fetch tasks",
+  handler: async (ctx, _request, { auth, params, url }) => {
+    // Parse query parameters
+    const includeCompleted = url.searchParams.get("includeCompleted") !== "false";
+    const limit = parsePageSize(url.searchParams.get("limit"), 100);
+
+    const scope = `list:${params.listId}:${includeCompleted}`;
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = cursorParam ? decodePageCursor(cursorParam, scope) : undefined;
+    if (cursor === null) {
+      return jsonResponse({ error: "Invalid cursor" }, 400);
     }
 
-    const auth = authResult as AuthResult;
+    const result = await ctx.runQuery(internal.tasks.queryTasksByList, {
+      userId: auth.userId,
+      listId: params.listId,
+      includeCompleted,
+      limit,
+      cursor,
+    });
 
-    // Extract listId from URL
-    const url = new URL(request.url);
-    const pathParts = url.pathname.split("/");
-    const listIdIndex = pathParts.indexOf("lists") + 1;
-    const listId = pathParts[listIdIndex];
+    return jsonResponse({
+      tasks: result.tasks,
+      totalCount: result.totalCount,
+      nextCursor: result.nextCursor ? encodePageCursor(scope, result.nextCursor) : undefined,
+    });
+  },
+});
 
-    if (!listId) {
-      return new Response(
-        JSON.stringify({ error: "List ID required" }),
-        { status: 400, headers: { "Content-Type": "application/json" } }
-      );
+/**
+ * GET /api/tasks/smart/:viewType
+ *
+ * Get a page of tasks by smart view (today, scheduled, flagged, completed,
+ * all). Paged with `cursor` like the list endpoint. Due dates are read in
+ * the `timeZone` query parameter (IANA name), else the profile's zone.
+ *
+ * Today's index range also holds tasks due tomorrow, which are dropped
+ * after reading, so reads continue until the page is full. A page can
+ * still come back short (even empty) with a `nextCursor`; only its absence
+ * marks the end.
+ *
+ * `totalCount` is the number of tasks in the view. For today, scheduled and
+ * flagged it stops at 1000, with `totalCountCapped: true`. Priority no
+ * longer breaks ordering ties (see querySmartView).
+ */
+router.route({
+  path: "/api/tasks/smart/:viewType",
+  method: "GET",
+  errorMessage: "Failed to fetch tasks",
+  handler: async (ctx, _request, { auth, params, url }) => {
+    const viewType = params.viewType as SmartViewType;
+
+    const validViewTypes = ["today", "scheduled", "flagged", "completed", "all"];
+    if (!validViewTypes.includes(viewType)) {
+      return jsonResponse({ error: `Invalid view type: ${viewType}` }, 400);
     }
 
     // Parse query parameters
-    const includeCompleted = url.searchParams.get("includeCompleted") !== "false";
-    const limit = parseInt(url.searchParams.get("limit") ?? "100", 10);
-    const cursor = url.searchParams.get("cursor") ?? undefined;
+    const limit = parsePageSize(url.searchParams.get("limit"), 100);
 
-    try {
-      const result = await ctx.runQuery(internal.tasks.queryTasksByList, {
+    const timeZone = url.searchParams.get("timeZone")
+      ?? (await ctx.runQuery(internal.profiles.getProfile, { userId: auth.userId })).timeZone;
+    if (!isValidTimeZone(timeZone)) {
+      return jsonResponse({ error: `Unknown time zone: ${timeZone}` }, 400);
+    }
+
+    // Today's range moves at midnight, so its cursors expire with the day
+    const now = Date.now();
+    const scope = viewType === "today"
+      ? `smart:today:${timeZone}:${localClock(timeZone, now).date}`
+      : `smart:${viewType}`;
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = cursorParam ? decodePageCursor(cursorParam, scope) : undefined;
+    if (cursor === null) {
+      return jsonResponse({ error: "Invalid cursor" }, 400);
+    }
+
+    const count = await ctx.runQuery(internal.tasks.countSmartView, {
+      userId: auth.userId,
+      viewType,
+      timeZone,
+      now,
+    });
+
+    const tasks: unknown[] = [];
+    let position = cursor;
+    for (let fetch = 0; fetch < MAX_SMART_VIEW_FETCHES; fetch++) {
+      const result = await ctx.runQuery(internal.tasks.querySmartView, {
         userId: auth.userId,
-        listId,
-        includeCompleted,
-        limit,
-        cursor,
+        viewType,
+        timeZone,
+        now,
+        limit: limit - tasks.length,
+        cursor: position,
       });
 
-      return new Response(
-        JSON.stringify(result),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
-    } catch (error) {
-      console.error("Error fetching tasks:", error);
-      return new Response(
-        JSON.stringify({ error: "Failed to fetch tasks" }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
+      tasks.push(...result.tasks);
+      position = result.nextCursor ?? undefined;
+      if (!position || tasks.length >= limit) {
+        break;
+      }
     }
-  }),
+
+    return jsonResponse({
+      viewType,
+      tasks,
+      totalCount: count.totalCount,
+      totalCountCapped: count.capped || undefined,
+      timeZone,
+      nextCursor: position ? encodePageCursor(scope, position) : undefined,
+    });
+  },
 });
 
 /**
- * GET /api/tasks/smart/:viewType
+ * GET /api/tasks/search
  *
- * Get tasks by smart view (today, scheduled, flagged, completed, all).
+ * Search tasks by query string. Registered as an exact path, so it takes
+ * precedence over /api/tasks/:taskId.
  */
-http.route({
-  path: "/api/tasks/smart/:viewType",
+router.route({
+  path: "/api/tasks/search",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
-    const authResult = await authenticateRequest(request, ctx);
-    if (!authResult.success) {
-      return createAuthErrorResponse(authResult as AuthError);
+  errorMessage: "Failed to search tasks",
+  handler: async (ctx, _request, { auth, url }) => {
+    const query = url.searchParams.get("q");
+    if (!query) {
+      return jsonResponse({ error: "Search query required" }, 400);
     }
 
-    const auth = authResult as AuthResult;
+    const listId = url.searchParams.get("listId") ?? undefined;
+    const includeCompleted = url.searchParams.get("includeCompleted") !== "false";
+    const limit = parsePageSize(url.searchParams.get("limit"), 50);
+
+    const result = await ctx.runQuery(internal.tasks.querySearch, {
+      userId: auth.userId,
+      query,
+      listId,
+      includeCompleted,
+      limit,
+    });
 
-    // Extract viewType from URL
-    const url = new URL(request.url);
-    const pathParts = url.pathname.split("/");
-    const viewType = pathParts[pathParts.length - 1] as SmartViewType;
+    return jsonResponse(result);
+  },
+});
 
-    const validViewTypes = ["today", "scheduled", "flagged", "completed", "all"];
-    if (!validViewTypes.includes(viewType)) {
-      return new Response(
-        JSON.stringify({ error: `Invalid view type: ${viewType}` }),
-        { status: 400, headers: { "Content-Type": "application/json" } }
-      );
+/**
+ * GET /api/tasks/:taskId
+ *
+ * Get a single task by ID.
+ */
+router.route({
+  path: "/api/tasks/:taskId",
+  method: "GET",
+  errorMessage: "Failed to fetch task",
+  handler: async (ctx, _request, { auth, params }) => {
+    const task = await ctx.runQuery(internal.tasks.queryTaskDetail, {
+      userId: auth.userId,
+      taskId: params.taskId,
+    });
+
+    if (!task) {
+      return jsonResponse({ error: "Task not found" }, 404);
     }
 
-    // Parse query parameters
-    const limit = parseInt(url.searchParams.get("limit") ?? "100", 10);
-    const cursor = url.searchParams.get("cursor") ?? undefined;
+    return jsonResponse({ task });
+  },
+});
 
-    try {
-      const result = await ctx.runQuery(internal.tasks.querySmartView, {
-        userId: auth.userId,
-        viewType,
-        limit,
-        cursor,
-      });
+/**
+ * GET /api/tasks/:taskId/history
+ *
+ * Get the events that changed a task, each with the device that sent it,
+ * a field-level diff and the task's state afterwards. With ?asOf= (epoch ms
+ * or ISO 8601), returns the task as it was at that time instead.
+ */
+router.route({
+  path: "/api/tasks/:taskId/history",
+  method: "GET",
+  errorMessage: "Failed to fetch task history",
+  handler: async (ctx, _request, { auth, params, url }) => {
+    const asOfParam = url.searchParams.get("asOf");
+    let asOf: number | undefined;
+    if (asOfParam !== null) {
+      asOf = /^\d+$/.test(asOfParam) ? Number(asOfParam) : Date.parse(asOfParam);
+      if (Number.isNaN(asOf)) {
+        return jsonResponse({ error: "asOf must be epoch milliseconds or an ISO 8601 date" }, 400);
+      }
+    }
 
-      return new Response(
-        JSON.stringify(result),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
-    } catch (error) {
-      console.error("Error fetching smart view:", error);
-      return new Response(
-        JSON.stringify({ error: "Failed to fetch tasks" }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
+    const history = await ctx.runQuery(internal.history.queryTaskHistory, {
+      userId: auth.userId,
+      taskId: params.taskId,
+      asOf,
+    });
+
+    if (!history) {
+      return jsonResponse({ error: "Task not found" }, 404);
     }
-  }),
+
+    return jsonResponse(history);
+  },
 });
 
+// ============================================================================
+// Tag Queries
+// ============================================================================
+
 /**
- * GET /api/tasks/search
+ * GET /api/tags
+ *
+ * Get all tags for the authenticated user.
+ */
+router.route({
+  path: "/api/tags",
+  method: "GET",
+  errorMessage: "Failed to fetch tags",
+  handler: async (ctx, _request, { auth }) => {
+    const tags = await ctx.runQuery(internal.tasks.queryTagsForUser, {
+      userId: auth.userId,
+    });
+
+    return jsonResponse({ tags });
+  },
+});
+
+// ============================================================================
+// Task Writes
+// ============================================================================
+
+/**
+ * POST /api/tasks
+ *
+ * Create a task. Body: { listId, title, notes?, dueDate?, dueTime?,
+ * priority?, tags?, flag?, ... }. New tasks go to the end of their list
+ * unless sortOrder is given.
+ *
+ * Like every REST write, this emits events through insertEventBatch and
+ * returns the projected row (201 here, 200 for other writes), or 202 with
+ * the event IDs if the events couldn't be projected yet. Idempotency-Key
+ * is supported.
+ */
+router.route({
+  path: "/api/tasks",
+  method: "POST",
+  errorMessage: "Failed to create task",
+  handler: async (ctx, request, { auth, deviceId }) => {
+    const write = await readWriteBody(request);
+    if (!write) {
+      return createInvalidJsonResponse();
+    }
+
+    const listId = (write.body as { listId?: unknown } | null)?.listId;
+    const list = typeof listId === "string"
+      ? await ctx.runQuery(internal.tasks.queryListDetail, { userId: auth.userId, listId })
+      : null;
+
+    const command = buildCommand("tasks.task.created", { taskId: newEntityId() }, write.body, {
+      fields: [...TASK_FIELDS, "listId"],
+      required: ["listId", "title"],
+      defaults: { sortOrder: list?.taskCount ?? 0 },
+    });
+    if (!command.success) {
+      return createInvalidCommandResponse(command.errors);
+    }
+
+    if (!list) {
+      return jsonResponse({ error: "List not found" }, 404);
+    }
+
+    const outcome = await writeEvents(ctx, request, auth, deviceId, command.events, write.rawBody);
+    return createWriteResponse(outcome, "task", 201);
+  },
+});
+
+/**
+ * PATCH /api/tasks/:taskId
+ *
+ * Update a task's fields. Body: any of the fields accepted on create except
+ * listId (use POST /api/tasks/:taskId/move). Null clears dueDate, dueTime,
+ * recurrence, location and url.
+ */
+router.route({
+  path: "/api/tasks/:taskId",
+  method: "PATCH",
+  errorMessage: "Failed to update task",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    const write = await readWriteBody(request);
+    if (!write) {
+      return createInvalidJsonResponse();
+    }
+
+    const command = buildCommand("tasks.task.updated", { taskId: params.taskId }, write.body, {
+      fields: TASK_FIELDS,
+      nonEmpty: true,
+    });
+    if (!command.success) {
+      return createInvalidCommandResponse(command.errors);
+    }
+
+    const task = await ctx.runQuery(internal.tasks.queryTaskDetail, {
+      userId: auth.userId,
+      taskId: params.taskId,
+    });
+    if (!task) {
+      return jsonResponse({ error: "Task not found" }, 404);
+    }
+
+    const outcome = await writeEvents(ctx, request, auth, deviceId, command.events, write.rawBody);
+    return createWriteResponse(outcome, "task");
+  },
+});
+
+/**
+ * DELETE /api/tasks/:taskId
+ *
+ * Delete a task. The task is tombstoned, so it can be restored with undo;
+ * the response carries the tombstoned row.
+ */
+router.route({
+  path: "/api/tasks/:taskId",
+  method: "DELETE",
+  errorMessage: "Failed to delete task",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    return writeTaskEvent(ctx, request, auth, deviceId, params.taskId, "tasks.task.deleted");
+  },
+});
+
+/**
+ * POST /api/tasks/:taskId/complete
+ *
+ * Mark a task completed.
+ */
+router.route({
+  path: "/api/tasks/:taskId/complete",
+  method: "POST",
+  errorMessage: "Failed to complete task",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    return writeTaskEvent(ctx, request, auth, deviceId, params.taskId, "tasks.task.completed");
+  },
+});
+
+/**
+ * POST /api/tasks/:taskId/uncomplete
+ *
+ * Mark a completed task as not completed.
+ */
+router.route({
+  path: "/api/tasks/:taskId/uncomplete",
+  method: "POST",
+  errorMessage: "Failed to uncomplete task",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    return writeTaskEvent(ctx, request, auth, deviceId, params.taskId, "tasks.task.uncompleted");
+  },
+});
+
+/**
+ * POST /api/tasks/:taskId/move
+ *
+ * Move a task to another list. Body: { listId, sortOrder? }; without
+ * sortOrder the task goes to the end of the list.
+ */
+router.route({
+  path: "/api/tasks/:taskId/move",
+  method: "POST",
+  errorMessage: "Failed to move task",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    const write = await readWriteBody(request);
+    if (!write) {
+      return createInvalidJsonResponse();
+    }
+
+    const listId = (write.body as { listId?: unknown } | null)?.listId;
+    const list = typeof listId === "string"
+      ? await ctx.runQuery(internal.tasks.queryListDetail, { userId: auth.userId, listId })
+      : null;
+
+    const command = buildCommand("tasks.task.moved", { taskId: params.taskId }, write.body, {
+      fields: ["listId", "sortOrder"],
+      required: ["listId"],
+      defaults: { sortOrder: list?.taskCount ?? 0 },
+    });
+    if (!command.success) {
+      return createInvalidCommandResponse(command.errors);
+    }
+
+    const task = await ctx.runQuery(internal.tasks.queryTaskDetail, {
+      userId: auth.userId,
+      taskId: params.taskId,
+    });
+    if (!task) {
+      return jsonResponse({ error: "Task not found" }, 404);
+    }
+
+    if (!list) {
+      return jsonResponse({ error: "List not found" }, 404);
+    }
+
+    const outcome = await writeEvents(ctx, request, auth, deviceId, command.events, write.rawBody);
+    return createWriteResponse(outcome, "task");
+  },
+});
+
+/**
+ * POST /api/tasks/:taskId/tags/:tagId
+ *
+ * Add a tag to a task. Adding a tag the task already has changes nothing.
+ */
+router.route({
+  path: "/api/tasks/:taskId/tags/:tagId",
+  method: "POST",
+  errorMessage: "Failed to add tag",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    const [task, tag] = await Promise.all([
+      ctx.runQuery(internal.tasks.queryTaskDetail, { userId: auth.userId, taskId: params.taskId }),
+      ctx.runQuery(internal.tasks.queryTagDetail, { userId: auth.userId, tagId: params.tagId }),
+    ]);
+
+    if (!task) {
+      return jsonResponse({ error: "Task not found" }, 404);
+    }
+
+    if (!tag) {
+      return jsonResponse({ error: "Tag not found" }, 404);
+    }
+
+    if (task.tags.includes(params.tagId)) {
+      return jsonResponse({ success: true, task, eventIds: [] });
+    }
+
+    const events = [
+      buildEvent("tasks.task.updated", { taskId: params.taskId, tags: [...task.tags, params.tagId] }),
+    ];
+    const outcome = await writeEvents(ctx, request, auth, deviceId, events, "");
+    return createWriteResponse(outcome, "task");
+  },
+});
+
+/**
+ * DELETE /api/tasks/:taskId/tags/:tagId
+ *
+ * Remove a tag from a task. Removing a tag the task doesn't have changes
+ * nothing.
+ */
+router.route({
+  path: "/api/tasks/:taskId/tags/:tagId",
+  method: "DELETE",
+  errorMessage: "Failed to remove tag",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    const task = await ctx.runQuery(internal.tasks.queryTaskDetail, {
+      userId: auth.userId,
+      taskId: params.taskId,
+    });
+    if (!task) {
+      return jsonResponse({ error: "Task not found" }, 404);
+    }
+
+    if (!task.tags.includes(params.tagId)) {
+      return jsonResponse({ success: true, task, eventIds: [] });
+    }
+
+    const events = [
+      buildEvent("tasks.task.updated", {
+        taskId: params.taskId,
+        tags: task.tags.filter((tagId) => tagId !== params.tagId),
+      }),
+    ];
+    const outcome = await writeEvents(ctx, request, auth, deviceId, events, "");
+    return createWriteResponse(outcome, "task");
+  },
+});
+
+/**
+ * POST /api/lists/:listId/tasks/reorder
+ *
+ * Reorder a list's tasks. Body: { taskIds } in the new order; each task's
+ * sortOrder becomes its position. Returns the reordered tasks.
+ */
+router.route({
+  path: "/api/lists/:listId/tasks/reorder",
+  method: "POST",
+  errorMessage: "Failed to reorder tasks",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    const write = await readWriteBody(request);
+    if (!write) {
+      return createInvalidJsonResponse();
+    }
+
+    const taskIds = (write.body as { taskIds?: unknown } | null)?.taskIds;
+    const command = buildReorderCommand("task", taskIds);
+    if (!command.success) {
+      return createInvalidCommandResponse(command.errors);
+    }
+
+    const missing = await ctx.runQuery(internal.tasks.queryMissingIds, {
+      userId: auth.userId,
+      entity: "task",
+      ids: taskIds as string[],
+      listId: params.listId,
+    });
+    if (missing.length > 0) {
+      return jsonResponse({ error: "Tasks not found in list", missing }, 404);
+    }
+
+    const outcome = await writeEvents(ctx, request, auth, deviceId, command.events, write.rawBody);
+    return createWriteResponse(outcome, "tasks");
+  },
+});
+
+/**
+ * POST /api/tasks/bulk
+ *
+ * Apply one operation to many tasks. Body: { operation } plus either
+ * { taskIds } or { filter }; see bulk.ts for the operations and filter
+ * conditions. A filter that reads more than MAX_FILTER_SCAN tasks is
+ * rejected with 413. Writes one event per changed task, undoable as one
+ * action, and returns a result per targeted task. Tasks already in the target
+ * state are reported as unchanged, so retrying a request is safe. With an
+ * Idempotency-Key header, a retry returns the results of the first request
+ * (marked Idempotent-Replayed: true).
+ */
+router.route({
+  path: "/api/tasks/bulk",
+  method: "POST",
+  errorMessage: "Failed to apply bulk operation",
+  handler: async (ctx, request, { auth, deviceId }) => {
+    const idempotencyKey = readIdempotencyKey(request);
+    if (idempotencyKey === null) {
+      return createInvalidIdempotencyKeyResponse();
+    }
+
+    const write = await readWriteBody(request);
+    if (!write) {
+      return createInvalidJsonResponse();
+    }
+
+    const parsed = parseBulkRequest(write.body);
+    if (!parsed.success) {
+      return createInvalidCommandResponse(parsed.errors);
+    }
+
+    const { operation, taskIds, filter } = parsed.request;
+
+    let list: Doc<"taskListsProjection"> | null = null;
+    if (operation.type === "move") {
+      list = await ctx.runQuery(internal.tasks.queryListDetail, {
+        userId: auth.userId,
+        listId: operation.listId,
+      });
+      if (!list) {
+        return jsonResponse({ error: "List not found" }, 404);
+      }
+    }
+
+    if (operation.type === "add_tag") {
+      const tag = await ctx.runQuery(internal.tasks.queryTagDetail, {
+        userId: auth.userId,
+        tagId: operation.tagId,
+      });
+      if (!tag) {
+        return jsonResponse({ error: "Tag not found" }, 404);
+      }
+    }
+
+    const targets = await ctx.runQuery(internal.bulk.queryBulkTargets, {
+      userId: auth.userId,
+      taskIds,
+      filter,
+      limit: MAX_BULK_TASKS,
+    });
+    if (targets.tooBroad) {
+      return jsonResponse(
+        {
+          error: `Filter reads more than ${MAX_FILTER_SCAN} tasks; narrow it by list, tag, completion, flag or due date`,
+          maxScannedTasks: MAX_FILTER_SCAN,
+        },
+        413
+      );
+    }
+    if (targets.truncated) {
+      return jsonResponse(
+        { error: `Filter matches more than ${MAX_BULK_TASKS} tasks`, maxTasks: MAX_BULK_TASKS },
+        413
+      );
+    }
+
+    const { events, eventTaskIds, unchanged } = buildBulkEvents(
+      operation,
+      targets.tasks,
+      list?.taskCount
+    );
+
+    const command = checkEvents(events);
+    if (!command.success) {
+      return createInvalidCommandResponse(command.errors);
+    }
+
+    let plan: BulkPlan = { eventTaskIds, unchanged, missing: targets.missing };
+    let eventResults: EventResult[] = [];
+    const headers: Record<string, string> = {};
+
+    // Submitted even when empty under a key, so a retry finds the first outcome
+    if (events.length > 0 || idempotencyKey !== undefined) {
+      const submitted = await submitEvents(ctx, auth, deviceId, events, {
+        atomic: false,
+        idempotencyKey,
+        requestHash: idempotencyKey !== undefined
+          ? await hashWriteRequest(request, write.rawBody)
+          : undefined,
+        replayData: plan,
+      });
+      if (!submitted.success) {
+        return submitted.response;
+      }
+      eventResults = submitted.results;
+
+      if (submitted.replayed) {
+        plan = submitted.replayData as BulkPlan;
+        headers["Idempotent-Replayed"] = "true";
+      }
+    }
+
+    const results: BulkTaskResult[] = [
+      ...eventResults.map((result, i): BulkTaskResult =>
+        result.status === "rejected"
+          ? {
+              taskId: plan.eventTaskIds[i],
+              status: "failed",
+              eventId: result.eventId,
+              reason: result.reason,
+              message: result.message,
+            }
+          : { taskId: plan.eventTaskIds[i], status: "updated", eventId: result.eventId }
+      ),
+      ...plan.unchanged.map((taskId): BulkTaskResult => ({ taskId, status: "unchanged" })),
+      ...plan.missing.map((taskId): BulkTaskResult => ({
+        taskId,
+        status: "failed",
+        reason: "NOT_FOUND",
+        message: "Task not found",
+      })),
+    ];
+
+    const failedIds = results.filter((r) => r.status === "failed").map((r) => r.taskId);
+
+    return jsonResponse(
+      {
+        success: true,
+        operation: operation.type,
+        successCount: results.length - failedIds.length,
+        failedCount: failedIds.length,
+        failedIds,
+        results,
+        eventIds: results.flatMap((r) => (r.status === "updated" && r.eventId ? [r.eventId] : [])),
+      },
+      200,
+      headers
+    );
+  },
+});
+
+// ============================================================================
+// List Writes
+// ============================================================================
+
+/**
+ * POST /api/lists
+ *
+ * Create a list. Body: { name, color?, icon?, sortOrder? }. New lists go
+ * after the existing ones unless sortOrder is given.
+ */
+router.route({
+  path: "/api/lists",
+  method: "POST",
+  errorMessage: "Failed to create list",
+  handler: async (ctx, request, { auth, deviceId }) => {
+    const write = await readWriteBody(request);
+    if (!write) {
+      return createInvalidJsonResponse();
+    }
+
+    const lists = await ctx.runQuery(internal.tasks.queryListsForUser, { userId: auth.userId });
+
+    const command = buildCommand("tasks.list.created", { listId: newEntityId() }, write.body, {
+      fields: LIST_FIELDS,
+      required: ["name"],
+      defaults: { sortOrder: lists.length },
+    });
+    if (!command.success) {
+      return createInvalidCommandResponse(command.errors);
+    }
+
+    const outcome = await writeEvents(ctx, request, auth, deviceId, command.events, write.rawBody);
+    return createWriteResponse(outcome, "list", 201);
+  },
+});
+
+/**
+ * POST /api/lists/reorder
+ *
+ * Reorder the user's lists. Body: { listIds } in the new order; each list's
+ * sortOrder becomes its position. Returns the reordered lists.
+ */
+router.route({
+  path: "/api/lists/reorder",
+  method: "POST",
+  errorMessage: "Failed to reorder lists",
+  handler: async (ctx, request, { auth, deviceId }) => {
+    const write = await readWriteBody(request);
+    if (!write) {
+      return createInvalidJsonResponse();
+    }
+
+    const listIds = (write.body as { listIds?: unknown } | null)?.listIds;
+    const command = buildReorderCommand("list", listIds);
+    if (!command.success) {
+      return createInvalidCommandResponse(command.errors);
+    }
+
+    const missing = await ctx.runQuery(internal.tasks.queryMissingIds, {
+      userId: auth.userId,
+      entity: "list",
+      ids: listIds as string[],
+    });
+    if (missing.length > 0) {
+      return jsonResponse({ error: "Lists not found", missing }, 404);
+    }
+
+    const outcome = await writeEvents(ctx, request, auth, deviceId, command.events, write.rawBody);
+    return createWriteResponse(outcome, "lists");
+  },
+});
+
+/**
+ * PATCH /api/lists/:listId
+ *
+ * Update a list. Body: any of name, color, icon, sortOrder.
+ */
+router.route({
+  path: "/api/lists/:listId",
+  method: "PATCH",
+  errorMessage: "Failed to update list",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    const write = await readWriteBody(request);
+    if (!write) {
+      return createInvalidJsonResponse();
+    }
+
+    const command = buildCommand("tasks.list.updated", { listId: params.listId }, write.body, {
+      fields: LIST_FIELDS,
+      nonEmpty: true,
+    });
+    if (!command.success) {
+      return createInvalidCommandResponse(command.errors);
+    }
+
+    const list = await ctx.runQuery(internal.tasks.queryListDetail, {
+      userId: auth.userId,
+      listId: params.listId,
+    });
+    if (!list) {
+      return jsonResponse({ error: "List not found" }, 404);
+    }
+
+    const outcome = await writeEvents(ctx, request, auth, deviceId, command.events, write.rawBody);
+    return createWriteResponse(outcome, "list");
+  },
+});
+
+/**
+ * DELETE /api/lists/:listId
+ *
+ * Delete a list and, with it, its tasks. Returns the tombstoned list.
+ */
+router.route({
+  path: "/api/lists/:listId",
+  method: "DELETE",
+  errorMessage: "Failed to delete list",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    const list = await ctx.runQuery(internal.tasks.queryListDetail, {
+      userId: auth.userId,
+      listId: params.listId,
+    });
+    if (!list) {
+      return jsonResponse({ error: "List not found" }, 404);
+    }
+
+    const events = [buildEvent("tasks.list.deleted", { listId: params.listId })];
+    const outcome = await writeEvents(ctx, request, auth, deviceId, events, "");
+    return createWriteResponse(outcome, "list");
+  },
+});
+
+// ============================================================================
+// Tag Writes
+// ============================================================================
+
+/**
+ * POST /api/tags
+ *
+ * Create a tag. Body: { name, color? }. Names are unique per user.
+ */
+router.route({
+  path: "/api/tags",
+  method: "POST",
+  errorMessage: "Failed to create tag",
+  handler: async (ctx, request, { auth, deviceId }) => {
+    const write = await readWriteBody(request);
+    if (!write) {
+      return createInvalidJsonResponse();
+    }
+
+    const command = buildCommand("tasks.tag.created", { tagId: newEntityId() }, write.body, {
+      fields: TAG_FIELDS,
+      required: ["name"],
+    });
+    if (!command.success) {
+      return createInvalidCommandResponse(command.errors);
+    }
+
+    const name = command.events[0].payload.name as string;
+    const tags = await ctx.runQuery(internal.tasks.queryTagsForUser, { userId: auth.userId });
+    if (tags.some((tag) => tag.name === name)) {
+      return jsonResponse({ error: `Tag already exists: ${name}` }, 409);
+    }
+
+    const outcome = await writeEvents(ctx, request, auth, deviceId, command.events, write.rawBody);
+    return createWriteResponse(outcome, "tag", 201);
+  },
+});
+
+/**
+ * PATCH /api/tags/:tagId
+ *
+ * Update a tag. Body: any of name, color.
+ */
+router.route({
+  path: "/api/tags/:tagId",
+  method: "PATCH",
+  errorMessage: "Failed to update tag",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    const write = await readWriteBody(request);
+    if (!write) {
+      return createInvalidJsonResponse();
+    }
+
+    const command = buildCommand("tasks.tag.updated", { tagId: params.tagId }, write.body, {
+      fields: TAG_FIELDS,
+      nonEmpty: true,
+    });
+    if (!command.success) {
+      return createInvalidCommandResponse(command.errors);
+    }
+
+    const tags = await ctx.runQuery(internal.tasks.queryTagsForUser, { userId: auth.userId });
+    if (!tags.some((tag) => tag.tagId === params.tagId)) {
+      return jsonResponse({ error: "Tag not found" }, 404);
+    }
+
+    const name = command.events[0].payload.name as string | undefined;
+    if (name !== undefined && tags.some((tag) => tag.name === name && tag.tagId !== params.tagId)) {
+      return jsonResponse({ error: `Tag already exists: ${name}` }, 409);
+    }
+
+    const outcome = await writeEvents(ctx, request, auth, deviceId, command.events, write.rawBody);
+    return createWriteResponse(outcome, "tag");
+  },
+});
+
+/**
+ * DELETE /api/tags/:tagId
+ *
+ * Delete a tag; it's removed from every task carrying it. Returns the
+ * tombstoned tag.
+ */
+router.route({
+  path: "/api/tags/:tagId",
+  method: "DELETE",
+  errorMessage: "Failed to delete tag",
+  handler: async (ctx, request, { auth, deviceId, params }) => {
+    const tag = await ctx.runQuery(internal.tasks.queryTagDetail, {
+      userId: auth.userId,
+      tagId: params.tagId,
+    });
+    if (!tag) {
+      return jsonResponse({ error: "Tag not found" }, 404);
+    }
+
+    const events = [buildEvent("tasks.tag.deleted", { tagId: params.tagId })];
+    const outcome = await writeEvents(ctx, request, auth, deviceId, events, "");
+    return createWriteResponse(outcome, "tag");
+  },
+});
+
+// ============================================================================
+// REST Write Path
+// ============================================================================
+
+// Inline projection passes a write waits for before answering 202
+const MAX_WRITE_DRAIN_PASSES = 3;
+
+type WriteOutcome =
+  | { success: true; eventIds: string[]; projected: boolean; rows: unknown[] }
+  | { success: false; response: Response };
+
+/**
+ * Ingest server-built events through insertEventBatch
+ *
+ * Signed with the user's active consent and recorded as one undo action.
+ * Consent and rate-limit failures come back as ready responses.
+ */
+async function submitEvents(
+  ctx: ActionCtx,
+  auth: AuthResult,
+  deviceId: string,
+  events: EventInput[],
+  options: { atomic: boolean; idempotencyKey?: string; requestHash?: string; replayData?: unknown }
+): Promise<
+  | { success: true; results: EventResult[]; replayed: boolean; replayData?: unknown }
+  | { success: false; response: Response }
+> {
+  const consent = await ctx.runQuery(internal.consent.getActiveConsent, { userId: auth.userId });
+  if (!consent) {
+    return {
+      success: false,
+      response: jsonResponse({ success: false, code: "CONSENT_REQUIRED", error: "No active consent" }, 403),
+    };
+  }
+
+  const result = await ctx.runMutation(internal.tasks.insertEventBatch, {
+    userId: auth.userId,
+    deviceId,
+    appId: "com.orion.tasks",
+    events,
+    consentSnapshotId: consent.snapshotId,
+    atomic: options.atomic,
+    undo: "grouped",
+    idempotencyKey: options.idempotencyKey,
+    requestHash: options.requestHash,
+    replayData: options.replayData,
+  });
+
+  if (!result.success) {
+    if (result.code === "RATE_LIMITED") {
+      return {
+        success: false,
+        response: jsonResponse(result, 429, {
+          "Retry-After": String(Math.ceil((result.retryAfterMs ?? 0) / 1000)),
+        }),
+      };
+    }
+    return { success: false, response: jsonResponse(result, 422) };
+  }
+
+  return {
+    success: true,
+    results: result.results,
+    replayed: result.replayed,
+    replayData: result.replayData,
+  };
+}
+
+/**
+ * Ingest the events of a REST write and project them
+ *
+ * The events are submitted as one atomic batch. The user's pending
+ * projections are then drained inline so the written rows can be returned;
+ * `projected` is false if that didn't happen in time (e.g. during a
+ * rebuild). `rawBody` identifies the request for Idempotency-Key.
+ */
+async function writeEvents(
+  ctx: ActionCtx,
+  request: Request,
+  auth: AuthResult,
+  deviceId: string,
+  events: EventInput[],
+  rawBody: string
+): Promise<WriteOutcome> {
+  const idempotencyKey = readIdempotencyKey(request);
+  if (idempotencyKey === null) {
+    return { success: false, response: createInvalidIdempotencyKeyResponse() };
+  }
+
+  const submitted = await submitEvents(ctx, auth, deviceId, events, {
+    atomic: true,
+    idempotencyKey,
+    requestHash: idempotencyKey !== undefined ? await hashWriteRequest(request, rawBody) : undefined,
+  });
+
+  if (!submitted.success) {
+    return submitted;
+  }
+
+  if (submitted.results.some((r) => r.status === "rejected")) {
+    return {
+      success: false,
+      response: jsonResponse(
+        {
+          success: false,
+          code: "WRITE_REJECTED",
+          error: "The write was rejected; nothing was changed",
+          results: submitted.results,
+        },
+        422
+      ),
+    };
+  }
+
+  // A replayed request reports the events of the first one
+  const eventIds = submitted.results.map((r) => r.eventId);
+  const query = { userId: auth.userId, appId: "com.orion.tasks", eventIds };
+
+  let written = await ctx.runQuery(internal.tasks.queryWriteResult, query);
+  for (let pass = 0; !written.projected && pass < MAX_WRITE_DRAIN_PASSES; pass++) {
+    const drained = await ctx.runMutation(internal.projections.drainProjections, {
+      userId: auth.userId,
+    });
+    written = await ctx.runQuery(internal.tasks.queryWriteResult, query);
+    if (drained.processed === 0) {
+      break;
+    }
+  }
+
+  return { success: true, eventIds, ...written };
+}
+
+/**
+ * Hash a REST write for Idempotency-Key
+ *
+ * The same body sent to another endpoint is a different request.
+ */
+async function hashWriteRequest(request: Request, rawBody: string): Promise<string> {
+  const { pathname } = new URL(request.url);
+  return hashRequestBody(`${request.method} ${pathname}\n${rawBody}`);
+}
+
+/**
+ * Respond to a REST write with the rows it produced
+ *
+ * Singular keys return one row, plural keys all of them.
+ */
+function createWriteResponse(
+  outcome: WriteOutcome,
+  key: "task" | "tasks" | "list" | "lists" | "tag",
+  status: number = 200
+): Response {
+  if (!outcome.success) {
+    return outcome.response;
+  }
+
+  if (!outcome.projected) {
+    return jsonResponse({ success: true, pending: true, eventIds: outcome.eventIds }, 202);
+  }
+
+  const many = key === "tasks" || key === "lists";
+  return jsonResponse(
+    { success: true, [key]: many ? outcome.rows : outcome.rows[0] ?? null, eventIds: outcome.eventIds },
+    status
+  );
+}
+
+/**
+ * Emit a body-less event for an existing task
+ */
+async function writeTaskEvent(
+  ctx: ActionCtx,
+  request: Request,
+  auth: AuthResult,
+  deviceId: string,
+  taskId: string,
+  eventType: string
+): Promise<Response> {
+  const task = await ctx.runQuery(internal.tasks.queryTaskDetail, { userId: auth.userId, taskId });
+  if (!task) {
+    return jsonResponse({ error: "Task not found" }, 404);
+  }
+
+  const outcome = await writeEvents(ctx, request, auth, deviceId, [buildEvent(eventType, { taskId })], "");
+  return createWriteResponse(outcome, "task");
+}
+
+/**
+ * Read a REST write's JSON body; an empty body reads as null
+ *
+ * Returns null if the body isn't valid JSON.
+ */
+async function readWriteBody(request: Request): Promise<{ rawBody: string; body: unknown } | null> {
+  const rawBody = await request.text();
+  if (rawBody.trim().length === 0) {
+    return { rawBody, body: null };
+  }
+
+  try {
+    return { rawBody, body: JSON.parse(rawBody) };
+  } catch {
+    return null;
+  }
+}
+
+function createInvalidJsonResponse(): Response {
+  return jsonResponse({ error: "Invalid request: body must be JSON" }, 400);
+}
+
+function createInvalidCommandResponse(errors: ValidationIssue[]): Response {
+  return jsonResponse({ error: "Invalid request", errors }, 400);
+}
+
+// ============================================================================
+// Delta Sync
+// ============================================================================
+
+/**
+ * GET /api/sync/changes
+ *
+ * Get every list, task and tag change (including tombstones) since an
+ * opaque cursor, and advance the calling device's sync state.
+ * Omit the cursor to receive all changes from the beginning.
+ */
+router.route({
+  path: "/api/sync/changes",
+  method: "GET",
+  errorMessage: "Failed to fetch changes",
+  handler: async (ctx, _request, { auth, deviceId, url }) => {
+    let sinceVersion = 0;
+    const cursorParam = url.searchParams.get("cursor");
+    if (cursorParam) {
+      const cursor = decodeSyncCursor(cursorParam);
+      if (!cursor) {
+        return jsonResponse({ error: "Invalid cursor" }, 400);
+      }
+      sinceVersion = cursor.version;
+    }
+
+    const limit = parsePageSize(url.searchParams.get("limit"), 500, MAX_SYNC_PAGE_SIZE);
+
+    const result = await ctx.runQuery(internal.sync.queryChanges, {
+      userId: auth.userId,
+      sinceVersion,
+      limit,
+    });
+
+    await ctx.runMutation(internal.sync.recordSyncProgress, {
+      userId: auth.userId,
+      deviceId,
+      version: result.version,
+      lastEventId: result.lastEventId,
+      lastTimestamp: result.lastTimestamp,
+    });
+
+    return jsonResponse({
+      lists: result.lists,
+      tasks: result.tasks,
+      tags: result.tags,
+      cursor: result.cursor,
+      version: result.version,
+      hasMore: result.hasMore,
+    });
+  },
+});
+
+/**
+ * GET /api/sync/state
+ *
+ * Get the sync state for the calling device, including which upload
+ * sequence ranges the server is still missing.
+ */
+router.route({
+  path: "/api/sync/state",
+  method: "GET",
+  errorMessage: "Failed to fetch sync state",
+  handler: async (ctx, _request, { auth, deviceId }) => {
+    const state = await ctx.runQuery(internal.sync.getSyncState, {
+      userId: auth.userId,
+      deviceId,
+    });
+
+    return jsonResponse(state);
+  },
+});
+
+// ============================================================================
+// Conflicts
+// ============================================================================
+
+/**
+ * GET /api/conflicts
+ *
+ * List edits the projector discarded, newest first.
+ * Query parameters: status (open | resolved, default open), limit.
+ */
+router.route({
+  path: "/api/conflicts",
+  method: "GET",
+  errorMessage: "Failed to fetch conflicts",
+  handler: async (ctx, _request, { auth, url }) => {
+    const status = url.searchParams.get("status") ?? "open";
+    if (status !== "open" && status !== "resolved") {
+      return jsonResponse({ error: `Invalid status: ${status}` }, 400);
+    }
+
+    const limit = parsePageSize(url.searchParams.get("limit"), 50);
+
+    const conflicts = await ctx.runQuery(internal.conflicts.listConflicts, {
+      userId: auth.userId,
+      status,
+      limit,
+    });
+
+    return jsonResponse({ conflicts });
+  },
+});
+
+/**
+ * POST /api/conflicts/resolve
  *
- * Search tasks by query string.
+ * Resolve a conflict by keeping the winning state or re-applying the
+ * losing edit as a new event.
+ * Body: { conflictId, resolution: "keep_winner" | "reapply" }
  */
-http.route({
-  path: "/api/tasks/search",
-  method: "GET",
-  handler: httpAction(async (ctx, request) => {
-    const authResult = await authenticateRequest(request, ctx);
-    if (!authResult.success) {
-      return createAuthErrorResponse(authResult as AuthError);
-    }
+router.route({
+  path: "/api/conflicts/resolve",
+  method: "POST",
+  errorMessage: "Failed to resolve conflict",
+  handler: async (ctx, request, { auth, deviceId }) => {
+    const body = await request.json();
+    const { conflictId, resolution } = body as {
+      conflictId: string;
+      resolution: string;
+    };
 
-    const auth = authResult as AuthResult;
-    const url = new URL(request.url);
+    if (!conflictId) {
+      return jsonResponse({ error: "Invalid request: conflictId required" }, 400);
+    }
 
-    const query = url.searchParams.get("q");
-    if (!query) {
-      return new Response(
-        JSON.stringify({ error: "Search query required" }),
-        { status: 400, headers: { "Content-Type": "application/json" } }
+    if (resolution !== "keep_winner" && resolution !== "reapply") {
+      return jsonResponse(
+        { error: "Invalid request: resolution must be keep_winner or reapply" },
+        400
       );
     }
 
-    const listId = url.searchParams.get("listId") ?? undefined;
-    const includeCompleted = url.searchParams.get("includeCompleted") !== "false";
-    const limit = parseInt(url.searchParams.get("limit") ?? "50", 10);
-
-    try {
-      const result = await ctx.runQuery(internal.tasks.querySearch, {
-        userId: auth.userId,
-        query,
-        listId,
-        includeCompleted,
-        limit,
-      });
+    const result = await ctx.runMutation(internal.conflicts.resolveConflict, {
+      userId: auth.userId,
+      deviceId,
+      appId: "com.orion.tasks",
+      conflictId,
+      resolution,
+    });
 
-      return new Response(
-        JSON.stringify(result),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
-    } catch (error) {
-      console.error("Error searching tasks:", error);
-      return new Response(
-        JSON.stringify({ error: "Failed to search tasks" }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
+    if (!result.success) {
+      return jsonResponse(result, getStatusCodeForConflictError(result.code));
     }
-  }),
+
+    return jsonResponse(result);
+  },
 });
 
 /**
- * GET /api/tasks/:taskId
+ * Map conflict resolution error codes to HTTP status codes
+ */
+function getStatusCodeForConflictError(code: string): number {
+  switch (code) {
+    case "NOT_FOUND":
+      return 404;
+    case "ALREADY_RESOLVED":
+      return 409;
+    case "CONSENT_REQUIRED":
+      return 403;
+    case "REAPPLY_REJECTED":
+      return 422;
+    default:
+      return 400;
+  }
+}
+
+// ============================================================================
+// Undo / Redo
+// ============================================================================
+
+/**
+ * POST /api/undo
  *
- * Get a single task by ID.
+ * Undo the calling device's latest action, or the action containing a
+ * given event (from any of the user's devices), by appending compensating
+ * events.
+ * Body: { eventId? }
  */
-http.route({
-  path: "/api/tasks/:taskId",
-  method: "GET",
-  handler: httpAction(async (ctx, request) => {
-    const authResult = await authenticateRequest(request, ctx);
-    if (!authResult.success) {
-      return createAuthErrorResponse(authResult as AuthError);
-    }
+router.route({
+  path: "/api/undo",
+  method: "POST",
+  errorMessage: "Failed to undo",
+  handler: async (ctx, request, { auth, deviceId }) => {
+    const body = await request.json().catch(() => ({}));
+    const { eventId } = body as { eventId?: string };
 
-    const auth = authResult as AuthResult;
+    if (eventId !== undefined && typeof eventId !== "string") {
+      return jsonResponse({ error: "Invalid request: eventId must be a string" }, 400);
+    }
 
-    // Extract taskId from URL
-    const url = new URL(request.url);
-    const pathParts = url.pathname.split("/");
-    const taskId = pathParts[pathParts.length - 1];
+    const result = await ctx.runMutation(internal.undo.undoAction, {
+      userId: auth.userId,
+      deviceId,
+      appId: "com.orion.tasks",
+      eventId,
+    });
 
-    if (!taskId) {
-      return new Response(
-        JSON.stringify({ error: "Task ID required" }),
-        { status: 400, headers: { "Content-Type": "application/json" } }
-      );
+    if (!result.success) {
+      return jsonResponse(result, getStatusCodeForUndoError(result.code));
     }
 
-    try {
-      const task = await ctx.runQuery(internal.tasks.queryTaskDetail, {
-        userId: auth.userId,
-        taskId,
-      });
+    return jsonResponse(result);
+  },
+});
 
-      if (!task) {
-        return new Response(
-          JSON.stringify({ error: "Task not found" }),
-          { status: 404, headers: { "Content-Type": "application/json" } }
-        );
-      }
+/**
+ * POST /api/redo
+ *
+ * Redo the calling device's most recently undone action.
+ */
+router.route({
+  path: "/api/redo",
+  method: "POST",
+  errorMessage: "Failed to redo",
+  handler: async (ctx, _request, { auth, deviceId }) => {
+    const result = await ctx.runMutation(internal.undo.redoAction, {
+      userId: auth.userId,
+      deviceId,
+      appId: "com.orion.tasks",
+    });
 
-      return new Response(
-        JSON.stringify({ task }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
-    } catch (error) {
-      console.error("Error fetching task:", error);
-      return new Response(
-        JSON.stringify({ error: "Failed to fetch task" }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
+    if (!result.success) {
+      return jsonResponse(result, getStatusCodeForUndoError(result.code));
     }
-  }),
+
+    return jsonResponse(result);
+  },
 });
 
+/**
+ * Map undo/redo error codes to HTTP status codes
+ */
+function getStatusCodeForUndoError(code: string): number {
+  switch (code) {
+    case "NOT_FOUND":
+    case "NOTHING_TO_UNDO":
+    case "NOTHING_TO_REDO":
+      return 404;
+    case "ALREADY_UNDONE":
+      return 409;
+    case "CONSENT_REQUIRED":
+      return 403;
+    case "COMPENSATION_REJECTED":
+      return 422;
+    default:
+      return 400;
+  }
+}
+
 // ============================================================================
-// Tag Queries
+// Profile
 // ============================================================================
 
 /**
- * GET /api/tags
+ * GET /api/profile
  *
- * Get all tags for the authenticated user.
+ * Get the user's profile settings.
  */
-http.route({
-  path: "/api/tags",
+router.route({
+  path: "/api/profile",
   method: "GET",
-  handler: httpAction(async (ctx, request) => {
-    const authResult = await authenticateRequest(request, ctx);
-    if (!authResult.success) {
-      return createAuthErrorResponse(authResult as AuthError);
-    }
-
-    const auth = authResult as AuthResult;
+  errorMessage: "Failed to fetch profile",
+  handler: async (ctx, _request, { auth }) => {
+    const profile = await ctx.runQuery(internal.profiles.getProfile, { userId: auth.userId });
+    return jsonResponse(profile);
+  },
+});
 
+/**
+ * PATCH /api/profile
+ *
+ * Update the user's profile. Body: { timeZone } as an IANA name, e.g.
+ * "America/New_York".
+ */
+router.route({
+  path: "/api/profile",
+  method: "PATCH",
+  errorMessage: "Failed to update profile",
+  handler: async (ctx, request, { auth }) => {
+    let body: { timeZone?: unknown };
     try {
-      const tags = await ctx.runQuery(internal.tasks.queryTagsForUser, {
-        userId: auth.userId,
-      });
+      body = await request.json();
+    } catch {
+      return createInvalidJsonResponse();
+    }
 
-      return new Response(
-        JSON.stringify({ tags }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
-    } catch (error) {
-      console.error("Error fetching tags:", error);
-      return new Response(
-        JSON.stringify({ error: "Failed to fetch tags" }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
+    if (typeof body?.timeZone !== "string") {
+      return createInvalidCommandResponse([{ path: "timeZone", message: "Expected a string" }]);
     }
-  }),
+
+    const result = await ctx.runMutation(internal.profiles.setTimeZone, {
+      userId: auth.userId,
+      timeZone: body.timeZone,
+    });
+
+    return jsonResponse(result, result.success ? 200 : 400);
+  },
 });
 
 // ============================================================================
 // Internal Mutations
 // ============================================================================
 
-interface EventInput {
-  eventId: string;
-  timestamp: number;
-  eventType: string;
-  schemaVersion: number;
-  payload: any;
-  mediaRefs?: any[];
-}
-
 type SmartViewType = "today" | "scheduled" | "flagged" | "completed" | "all";
 
+const smartViewTypeValidator = v.union(
+  v.literal("today"),
+  v.literal("scheduled"),
+  v.literal("flagged"),
+  v.literal("completed"),
+  v.literal("all")
+);
+
+type TaskQuery = OrderedQuery<DataModel["tasksProjection"]>;
+
 /**
  * Insert a batch of events
+ *
+ * With an idempotency key, the stored result of an earlier call with the
+ * same key is returned instead (or an error if the request body differs).
+ * `replayData` is stored with the result and returned with it on replay,
+ * for callers whose response needs more than the event results.
  */
 export const insertEventBatch = internalMutation({
   args: {
     userId: v.string(),
     deviceId: v.string(),
     appId: v.string(),
-    events: v.array(v.object({
-      eventId: v.string(),
-      timestamp: v.number(),
-      eventType: v.string(),
-      schemaVersion: v.number(),
-      payload: v.any(),
-      mediaRefs: v.optional(v.array(v.any())),
-    })),
+    events: v.array(eventInputValidator),
     consentSnapshotId: v.string(),
+    sentAt: v.optional(v.number()),
+    atomic: v.optional(v.boolean()),
+    undo: v.optional(v.union(v.literal("per_event"), v.literal("grouped"), v.literal("none"))),
+    idempotencyKey: v.optional(v.string()),
+    requestHash: v.optional(v.string()),
+    replayData: v.optional(v.any()),
   },
   handler: async (ctx, args) => {
-    const serverTimestamp = Date.now();
-    const eventIds: string[] = [];
-    let processed = 0;
-    let failed = 0;
-
-    for (const event of args.events) {
-      try {
-        // Check for duplicate event ID (idempotency)
-        const existing = await ctx.db
-          .query("events")
-          .withIndex("by_event_id", (q) => q.eq("eventId", event.eventId))
-          .first();
-
-        if (existing) {
-          // Event already exists - skip but count as processed
-          eventIds.push(event.eventId);
-          processed++;
-          continue;
+    const { idempotencyKey, requestHash, replayData, ...ingestArgs } = args;
+
+    if (idempotencyKey !== undefined) {
+      const stored = await findIdempotencyRecord(ctx, args.userId, args.appId, idempotencyKey);
+      if (stored) {
+        if (stored.requestHash !== requestHash) {
+          return {
+            success: false as const,
+            code: "IDEMPOTENCY_KEY_REUSED",
+            error: "Idempotency-Key was already used for a different request",
+          };
         }
+        return {
+          ...(stored.response as IngestResult & { replayData?: unknown }),
+          success: true as const,
+          replayed: true,
+          sequence: await getDeviceSequenceReport(ctx, args.userId, args.deviceId),
+        };
+      }
+    }
 
-        // Insert the event
-        const id = await ctx.db.insert("events", {
-          eventId: event.eventId,
-          userId: args.userId,
-          deviceId: args.deviceId,
-          appId: args.appId,
-          timestamp: event.timestamp,
-          serverTimestamp,
-          eventType: event.eventType,
-          schemaVersion: event.schemaVersion,
-          payload: event.payload,
-          mediaRefs: event.mediaRefs,
-          consentSnapshotId: args.consentSnapshotId,
-          processingStatus: "pending",
-        });
-
-        eventIds.push(event.eventId);
-
-        // Process the event to update projections
-        await ctx.scheduler.runAfter(0, internal.projections.processEvent, {
-          eventId: id,
-        });
-
-        // Check if this event should trigger Brain processing
-        await ctx.scheduler.runAfter(0, internal.brainRegistry.checkAndQueueEvent, {
-          eventId: id,
-          eventType: event.eventType,
-          userId: args.userId,
-        });
+    // Replays are free; everything else counts against the caller's rate limits
+    const quota = await consumeIngestionQuota(ctx, args.userId, args.deviceId, args.events.length);
+    if (!quota.allowed) {
+      return {
+        success: false as const,
+        code: "RATE_LIMITED",
+        error: `Too many events for this ${quota.scope}; retry later`,
+        retryAfterMs: quota.retryAfterMs,
+      };
+    }
 
-        processed++;
-      } catch (error) {
-        console.error(`Error inserting event ${event.eventId}:`, error);
-        failed++;
-      }
+    const result = await ingestEvents(ctx, ingestArgs);
+
+    const sequence = await recordDeviceSequences(
+      ctx,
+      args.userId,
+      args.deviceId,
+      receivedSequences(args.events, result.results)
+    );
+
+    if (idempotencyKey !== undefined) {
+      await storeIdempotencyRecord(ctx, {
+        userId: args.userId,
+        appId: args.appId,
+        key: idempotencyKey,
+        requestHash: requestHash ?? "",
+        response: { ...result, replayData },
+      });
     }
 
-    return { processed, failed, eventIds };
+    return { ...result, success: true as const, replayed: false, replayData, sequence };
   },
 });
 
@@ -544,7 +1993,7 @@ export const queryListsForUser = internalQuery({
 });
 
 /**
- * Query tasks by list
+ * Query a page of a list's tasks, in sortOrder, with the list's task count
  */
 export const queryTasksByList = internalQuery({
   args: {
@@ -552,174 +2001,141 @@ export const queryTasksByList = internalQuery({
     listId: v.string(),
     includeCompleted: v.optional(v.boolean()),
     limit: v.optional(v.number()),
-    cursor: v.optional(v.string()),
+    cursor: v.optional(pagePositionValidator),
   },
   handler: async (ctx, args) => {
     const limit = args.limit ?? 100;
 
-    let query = ctx.db
-      .query("tasksProjection")
-      .withIndex("by_user_list", (q) =>
+    const { page, nextCursor } = await paginatePhases(
+      [
+        () => {
+          const query = ctx.db
+            .query("tasksProjection")
+            .withIndex("by_user_list_order", (q) =>
+              q.eq("userId", args.userId).eq("listId", args.listId).eq("tombstoned", false)
+            );
+          return args.includeCompleted ? query : query.filter((q) => q.eq(q.field("completed"), false));
+        },
+      ],
+      args.cursor,
+      limit
+    );
+
+    // Counted from the list's counters rather than by reading its tasks
+    const list = await ctx.db
+      .query("taskListsProjection")
+      .withIndex("by_user_list_id", (q) =>
         q.eq("userId", args.userId).eq("listId", args.listId)
-      );
-
-    const allTasks = await query.collect();
-
-    // Filter tombstoned and optionally completed tasks
-    let tasks = allTasks.filter((t) => !t.tombstoned);
-    if (!args.includeCompleted) {
-      tasks = tasks.filter((t) => !t.completed);
-    }
-
-    // Sort by sortOrder, then by createdAt
-    tasks.sort((a, b) => {
-      if (a.sortOrder !== b.sortOrder) {
-        return a.sortOrder - b.sortOrder;
-      }
-      return a.createdAt - b.createdAt;
-    });
-
-    // Apply pagination
-    const startIndex = args.cursor ? tasks.findIndex((t) => t.taskId === args.cursor) + 1 : 0;
-    const pageTasks = tasks.slice(startIndex, startIndex + limit);
-    const nextCursor = pageTasks.length === limit ? pageTasks[pageTasks.length - 1].taskId : undefined;
+      )
+      .first();
+    const taskCount = list?.taskCount ?? 0;
+    const totalCount = args.includeCompleted
+      ? taskCount
+      : taskCount - (list?.completedTaskCount ?? 0);
 
-    return {
-      tasks: pageTasks,
-      nextCursor,
-      totalCount: tasks.length,
-    };
+    return { tasks: page, nextCursor, totalCount };
   },
 });
 
 /**
- * Query tasks by smart view
+ * Query a page of a smart view
+ *
+ * - today: incomplete tasks due today or overdue, by due date and time
+ * - scheduled: incomplete tasks with a due date, by due date and time
+ * - flagged / all: incomplete tasks by due date and time, undated ones last
+ * - completed: completed tasks, most recently completed first
+ *
+ * Within a day, tasks without a due time come before timed ones. Remaining
+ * ties keep creation order (priority is no longer a tie-break). Due dates
+ * are placed in `timeZone` as of `now` (see dueDates.ts) and each dated task
+ * gets a `dueStatus`. Today's page drops upcoming tasks after reading, so it
+ * can be shorter than `limit`.
  */
 export const querySmartView = internalQuery({
   args: {
     userId: v.string(),
-    viewType: v.union(
-      v.literal("today"),
-      v.literal("scheduled"),
-      v.literal("flagged"),
-      v.literal("completed"),
-      v.literal("all")
-    ),
+    viewType: smartViewTypeValidator,
+    timeZone: v.string(),
+    now: v.number(),
     limit: v.optional(v.number()),
-    cursor: v.optional(v.string()),
+    cursor: v.optional(pagePositionValidator),
   },
   handler: async (ctx, args) => {
     const limit = args.limit ?? 100;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayStr = today.toISOString().split("T")[0];
+    const clock = localClock(args.timeZone, args.now);
 
-    // Get all non-tombstoned tasks for user
-    const allTasks = await ctx.db
-      .query("tasksProjection")
-      .withIndex("by_user_active", (q) =>
-        q.eq("userId", args.userId).eq("tombstoned", false)
-      )
-      .collect();
+    const { page, nextCursor } = await paginatePhases(
+      smartViewPhases(ctx, args.userId, args.viewType, clock),
+      args.cursor,
+      limit
+    );
 
-    let tasks: typeof allTasks = [];
+    const tasks = page.map((task) => {
+      const due = resolveDue(task, args.timeZone);
+      return due ? { ...task, dueStatus: classifyDue(due, clock) } : task;
+    });
 
-    switch (args.viewType) {
-      case "today":
-        tasks = allTasks.filter((t) => {
-          if (t.completed) return false;
-          if (!t.dueDate) return false;
-          return t.dueDate.startsWith(todayStr);
-        });
-        // Sort by due time, then priority
-        tasks.sort((a, b) => {
-          if (a.dueTime && b.dueTime) {
-            return a.dueTime.localeCompare(b.dueTime);
-          }
-          if (a.dueTime) return -1;
-          if (b.dueTime) return 1;
-          return getPriorityValue(b.priority) - getPriorityValue(a.priority);
-        });
-        break;
+    return {
+      tasks: args.viewType === "today"
+        ? tasks.filter((task) => "dueStatus" in task && task.dueStatus !== "upcoming")
+        : tasks,
+      nextCursor,
+    };
+  },
+});
 
-      case "scheduled":
-        tasks = allTasks.filter((t) => !t.completed && t.dueDate);
-        // Sort by due date
-        tasks.sort((a, b) => {
-          if (!a.dueDate) return 1;
-          if (!b.dueDate) return -1;
-          return a.dueDate.localeCompare(b.dueDate);
-        });
-        break;
+/**
+ * Count the tasks in a smart view
+ *
+ * All and completed are summed from the list counters. The other views are
+ * counted from their index ranges up to MAX_SMART_VIEW_COUNT, with `capped`
+ * set when there are more.
+ */
+export const countSmartView = internalQuery({
+  args: {
+    userId: v.string(),
+    viewType: smartViewTypeValidator,
+    timeZone: v.string(),
+    now: v.number(),
+  },
+  handler: async (ctx, args) => {
+    if (args.viewType === "all" || args.viewType === "completed") {
+      const lists = await ctx.db
+        .query("taskListsProjection")
+        .withIndex("by_user_active", (q) =>
+          q.eq("userId", args.userId).eq("tombstoned", false)
+        )
+        .collect();
+
+      let totalCount = 0;
+      for (const list of lists) {
+        const completed = list.completedTaskCount ?? 0;
+        totalCount += args.viewType === "all" ? (list.taskCount ?? 0) - completed : completed;
+      }
 
-      case "flagged":
-        tasks = allTasks.filter((t) => !t.completed && t.flag);
-        // Sort by due date, then priority
-        tasks.sort((a, b) => {
-          if (a.dueDate && b.dueDate) {
-            const dateCompare = a.dueDate.localeCompare(b.dueDate);
-            if (dateCompare !== 0) return dateCompare;
-          }
-          if (a.dueDate) return -1;
-          if (b.dueDate) return 1;
-          return getPriorityValue(b.priority) - getPriorityValue(a.priority);
-        });
-        break;
+      return { totalCount, capped: false };
+    }
 
-      case "completed":
-        tasks = allTasks.filter((t) => t.completed);
-        // Sort by completion date, newest first
-        tasks.sort((a, b) => {
-          if (a.completedAt && b.completedAt) {
-            return b.completedAt.localeCompare(a.completedAt);
-          }
-          return b.updatedAt - a.updatedAt;
-        });
-        break;
+    const clock = localClock(args.timeZone, args.now);
+    let totalCount = 0;
 
-      case "all":
-        tasks = allTasks.filter((t) => !t.completed);
-        // Sort by due date, then priority, then created
-        tasks.sort((a, b) => {
-          if (a.dueDate && b.dueDate) {
-            const dateCompare = a.dueDate.localeCompare(b.dueDate);
-            if (dateCompare !== 0) return dateCompare;
-          }
-          if (a.dueDate) return -1;
-          if (b.dueDate) return 1;
-          const priorityCompare = getPriorityValue(b.priority) - getPriorityValue(a.priority);
-          if (priorityCompare !== 0) return priorityCompare;
-          return a.createdAt - b.createdAt;
-        });
-        break;
+    for (const phase of smartViewPhases(ctx, args.userId, args.viewType, clock)) {
+      for await (const task of phase()) {
+        const due = resolveDue(task, args.timeZone);
+        if (args.viewType === "today" && (!due || classifyDue(due, clock) === "upcoming")) {
+          continue;
+        }
+        if (totalCount === MAX_SMART_VIEW_COUNT) {
+          return { totalCount, capped: true };
+        }
+        totalCount++;
+      }
     }
 
-    // Apply pagination
-    const startIndex = args.cursor ? tasks.findIndex((t) => t.taskId === args.cursor) + 1 : 0;
-    const pageTasks = tasks.slice(startIndex, startIndex + limit);
-    const nextCursor = pageTasks.length === limit ? pageTasks[pageTasks.length - 1].taskId : undefined;
-
-    return {
-      tasks: pageTasks,
-      nextCursor,
-      totalCount: tasks.length,
-    };
+    return { totalCount, capped: false };
   },
 });
 
-function getPriorityValue(priority: string): number {
-  switch (priority) {
-    case "high":
-      return 3;
-    case "medium":
-      return 2;
-    case "low":
-      return 1;
-    default:
-      return 0;
-  }
-}
-
 /**
  * Search tasks
  */
@@ -768,18 +2184,15 @@ export const queryTaskDetail = internalQuery({
   handler: async (ctx, args) => {
     const task = await ctx.db
       .query("tasksProjection")
-      .withIndex("by_task_id", (q) => q.eq("taskId", args.taskId))
+      .withIndex("by_user_task", (q) =>
+        q.eq("userId", args.userId).eq("taskId", args.taskId)
+      )
       .first();
 
     if (!task) {
       return null;
     }
 
-    // Verify ownership
-    if (task.userId !== args.userId) {
-      return null;
-    }
-
     // Don't return tombstoned tasks
     if (task.tombstoned) {
       return null;
@@ -789,6 +2202,46 @@ export const queryTaskDetail = internalQuery({
   },
 });
 
+/**
+ * Get a single list
+ */
+export const queryListDetail = internalQuery({
+  args: {
+    userId: v.string(),
+    listId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const list = await ctx.db
+      .query("taskListsProjection")
+      .withIndex("by_user_list_id", (q) =>
+        q.eq("userId", args.userId).eq("listId", args.listId)
+      )
+      .first();
+
+    return list && !list.tombstoned ? list : null;
+  },
+});
+
+/**
+ * Get a single tag
+ */
+export const queryTagDetail = internalQuery({
+  args: {
+    userId: v.string(),
+    tagId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const tag = await ctx.db
+      .query("tagsProjection")
+      .withIndex("by_user_tag", (q) =>
+        q.eq("userId", args.userId).eq("tagId", args.tagId)
+      )
+      .first();
+
+    return tag && !tag.tombstoned ? tag : null;
+  },
+});
+
 /**
  * Query tags for a user
  */
@@ -809,5 +2262,208 @@ export const queryTagsForUser = internalQuery({
   },
 });
 
+/**
+ * Find which of the given lists or tasks don't exist (or are deleted)
+ *
+ * With listId, tasks in other lists count as missing too.
+ */
+export const queryMissingIds = internalQuery({
+  args: {
+    userId: v.string(),
+    entity: v.union(v.literal("list"), v.literal("task")),
+    ids: v.array(v.string()),
+    listId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const missing: string[] = [];
+
+    for (const id of args.ids) {
+      if (args.entity === "list") {
+        const list = await ctx.db
+          .query("taskListsProjection")
+          .withIndex("by_user_list_id", (q) => q.eq("userId", args.userId).eq("listId", id))
+          .first();
+
+        if (!list || list.tombstoned) {
+          missing.push(id);
+        }
+        continue;
+      }
+
+      const task = await ctx.db
+        .query("tasksProjection")
+        .withIndex("by_user_task", (q) => q.eq("userId", args.userId).eq("taskId", id))
+        .first();
+
+      if (!task || task.tombstoned || (args.listId !== undefined && task.listId !== args.listId)) {
+        missing.push(id);
+      }
+    }
+
+    return missing;
+  },
+});
+
+/**
+ * Get whether a REST write's events are projected, and the rows they wrote
+ *
+ * Rows come back in event order, each once, tombstoned ones included.
+ */
+export const queryWriteResult = internalQuery({
+  args: {
+    userId: v.string(),
+    appId: v.string(),
+    eventIds: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const rows: Doc<"tasksProjection" | "taskListsProjection" | "tagsProjection">[] = [];
+
+    for (const eventId of args.eventIds) {
+      const event = await ctx.db
+        .query("events")
+        .withIndex("by_user_app_event", (q) =>
+          q.eq("userId", args.userId).eq("appId", args.appId).eq("eventId", eventId)
+        )
+        .first();
+
+      if (!event || event.projectedAt === undefined) {
+        return { projected: false, rows: [] };
+      }
+
+      const row = await getEntityRow(ctx, args.userId, event.eventType, event.entityId);
+      if (row && !rows.some((r) => r._id === row._id)) {
+        rows.push(row);
+      }
+    }
+
+    return { projected: true, rows };
+  },
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Index ranges a smart view reads, in order
+ */
+function smartViewPhases(
+  ctx: QueryCtx,
+  userId: string,
+  viewType: SmartViewType,
+  clock: LocalClock
+): (() => TaskQuery)[] {
+  const tasks = () => ctx.db.query("tasksProjection");
+
+  switch (viewType) {
+    case "today":
+      // An instant's UTC date can be a day past its local one
+      return [
+        () =>
+          tasks().withIndex("by_user_completed_due", (q) =>
+            q
+              .eq("userId", userId)
+              .eq("completed", false)
+              .eq("tombstoned", false)
+              .gte("dueDate", "")
+              .lt("dueDate", addDays(clock.date, 2))
+          ),
+      ];
+
+    case "scheduled":
+      return [
+        () =>
+          tasks().withIndex("by_user_completed_due", (q) =>
+            q.eq("userId", userId).eq("completed", false).eq("tombstoned", false).gte("dueDate", "")
+          ),
+      ];
+
+    case "flagged":
+      return [
+        () =>
+          tasks().withIndex("by_user_flagged_due", (q) =>
+            q
+              .eq("userId", userId)
+              .eq("flag", true)
+              .eq("completed", false)
+              .eq("tombstoned", false)
+              .gte("dueDate", "")
+          ),
+        () =>
+          tasks().withIndex("by_user_flagged_due", (q) =>
+            q
+              .eq("userId", userId)
+              .eq("flag", true)
+              .eq("completed", false)
+              .eq("tombstoned", false)
+              .eq("dueDate", undefined)
+          ),
+      ];
+
+    case "completed":
+      return [
+        () =>
+          tasks()
+            .withIndex("by_user_completed_at", (q) =>
+              q.eq("userId", userId).eq("completed", true).eq("tombstoned", false)
+            )
+            .order("desc"),
+      ];
+
+    case "all":
+      return [
+        () =>
+          tasks().withIndex("by_user_completed_due", (q) =>
+            q.eq("userId", userId).eq("completed", false).eq("tombstoned", false).gte("dueDate", "")
+          ),
+        () =>
+          tasks().withIndex("by_user_completed_due", (q) =>
+            q
+              .eq("userId", userId)
+              .eq("completed", false)
+              .eq("tombstoned", false)
+              .eq("dueDate", undefined)
+          ),
+      ];
+  }
+}
+
+/**
+ * Get the projection row an event's entity maps to
+ */
+async function getEntityRow(
+  ctx: QueryCtx,
+  userId: string,
+  eventType: string,
+  entityId: string | undefined
+) {
+  if (entityId === undefined) {
+    return null;
+  }
+
+  if (eventType.startsWith("tasks.task.")) {
+    return ctx.db
+      .query("tasksProjection")
+      .withIndex("by_user_task", (q) => q.eq("userId", userId).eq("taskId", entityId))
+      .first();
+  }
+
+  if (eventType.startsWith("tasks.list.")) {
+    return ctx.db
+      .query("taskListsProjection")
+      .withIndex("by_user_list_id", (q) => q.eq("userId", userId).eq("listId", entityId))
+      .first();
+  }
+
+  if (eventType.startsWith("tasks.tag.")) {
+    return ctx.db
+      .query("tagsProjection")
+      .withIndex("by_user_tag", (q) => q.eq("userId", userId).eq("tagId", entityId))
+      .first();
+  }
+
+  return null;
+}
+
 // Export the HTTP router
 export default http;
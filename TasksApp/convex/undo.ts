@@ -0,0 +1,380 @@
+import { internalMutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { EventInput, generateEventId, ingestEvents } from "./ingestion";
+import {
+  LoggedEvent,
+  NULLABLE_TASK_FIELDS,
+  reconstructTaskStateBefore,
+  TaskState,
+} from "./history";
+import { upcastEvent } from "./eventRegistry";
+
+/**
+ * Undo/Redo Module
+ *
+ * Keeps an undo stack per user and device on the server, so an edit can be
+ * undone from any of the user's devices. Undo never rewrites the log: it
+ * appends compensating events built from the task's state before the
+ * original event (reconstructed from the log), through the normal ingestion
+ * path. Redo compensates the compensating events the same way.
+ *
+ * Examples:
+ * - tasks.task.deleted is undone by tasks.task.restored
+ * - tasks.task.moved is undone by a move back to the previous list
+ * - a bulk complete (one action, many events) is undone by uncompleting
+ *   every task it completed
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How ingested events are recorded on the undo stack
+ *
+ * - per_event: each undoable event is its own action (default)
+ * - grouped: all undoable events of the call form one action (bulk operations)
+ * - none: not recorded (compensating events written by undo/redo)
+ */
+export type UndoGrouping = "per_event" | "grouped" | "none";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Actions kept per user and device; older ones can't be undone
+const MAX_UNDO_DEPTH = 50;
+
+// Recent actions searched when undoing a specific event
+const UNDO_SEARCH_LIMIT = 500;
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Check if an event type can be undone
+ */
+export function isUndoableEventType(eventType: string): boolean {
+  return eventType.startsWith("tasks.task.");
+}
+
+/**
+ * Push actions onto a device's undo stack, oldest first
+ *
+ * The stack is trimmed once for the whole call, and actions that would be
+ * trimmed straight away aren't written. A new action also invalidates the
+ * device's redo stack (see redoAction).
+ */
+export async function recordUndoActions(
+  ctx: MutationCtx,
+  userId: string,
+  deviceId: string,
+  actions: string[][]
+): Promise<void> {
+  const kept = actions.filter((eventIds) => eventIds.length > 0).slice(-MAX_UNDO_DEPTH);
+  if (kept.length === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  for (const eventIds of kept) {
+    await ctx.db.insert("undoActions", {
+      userId,
+      deviceId,
+      eventIds,
+      status: "done",
+      createdAt: now,
+      changedAt: now,
+    });
+  }
+
+  // Trim the stack to its maximum depth
+  const stack = await ctx.db
+    .query("undoActions")
+    .withIndex("by_user_device", (q) => q.eq("userId", userId).eq("deviceId", deviceId))
+    .order("desc")
+    .take(MAX_UNDO_DEPTH + kept.length + 10);
+
+  for (const action of stack.slice(MAX_UNDO_DEPTH)) {
+    await ctx.db.delete(action._id);
+  }
+}
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Undo an action
+ *
+ * With an eventId, undoes the action containing that event, whichever of
+ * the user's devices performed it. Otherwise undoes the latest action of
+ * the calling device.
+ */
+export const undoAction = internalMutation({
+  args: {
+    userId: v.string(),
+    deviceId: v.string(),
+    appId: v.string(),
+    eventId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    let action: Doc<"undoActions"> | null;
+
+    if (args.eventId !== undefined) {
+      const eventId = args.eventId;
+      const recent = await ctx.db
+        .query("undoActions")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .order("desc")
+        .take(UNDO_SEARCH_LIMIT);
+
+      action = recent.find((a) => a.eventIds.includes(eventId)) ?? null;
+      if (!action) {
+        return { success: false as const, code: "NOT_FOUND", error: "Event is not on an undo stack" };
+      }
+      if (action.status === "undone") {
+        return { success: false as const, code: "ALREADY_UNDONE", error: "Action already undone" };
+      }
+    } else {
+      action = await ctx.db
+        .query("undoActions")
+        .withIndex("by_user_device_status", (q) =>
+          q.eq("userId", args.userId).eq("deviceId", args.deviceId).eq("status", "done")
+        )
+        .order("desc")
+        .first();
+
+      if (!action) {
+        return { success: false as const, code: "NOTHING_TO_UNDO", error: "Nothing to undo" };
+      }
+    }
+
+    const result = await compensate(ctx, args, action.eventIds);
+    if (!result.success) {
+      return result;
+    }
+
+    await ctx.db.patch(action._id, {
+      status: "undone",
+      compensatingEventIds: result.compensatingEventIds,
+      changedAt: Date.now(),
+    });
+
+    return {
+      success: true as const,
+      undoneEventIds: action.eventIds,
+      compensatingEventIds: result.compensatingEventIds,
+    };
+  },
+});
+
+/**
+ * Redo the calling device's most recently undone action
+ *
+ * Only possible until the device performs a new action.
+ */
+export const redoAction = internalMutation({
+  args: {
+    userId: v.string(),
+    deviceId: v.string(),
+    appId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const [undone, done] = await Promise.all(
+      (["undone", "done"] as const).map((status) =>
+        ctx.db
+          .query("undoActions")
+          .withIndex("by_user_device_status", (q) =>
+            q.eq("userId", args.userId).eq("deviceId", args.deviceId).eq("status", status)
+          )
+          .order("desc")
+          .first()
+      )
+    );
+
+    if (!undone || (done && done.changedAt > undone.changedAt)) {
+      return { success: false as const, code: "NOTHING_TO_REDO", error: "Nothing to redo" };
+    }
+
+    const result = await compensate(ctx, args, undone.compensatingEventIds ?? []);
+    if (!result.success) {
+      return result;
+    }
+
+    await ctx.db.patch(undone._id, {
+      status: "done",
+      compensatingEventIds: result.compensatingEventIds,
+      changedAt: Date.now(),
+    });
+
+    return {
+      success: true as const,
+      redoneEventIds: undone.eventIds,
+      compensatingEventIds: result.compensatingEventIds,
+    };
+  },
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Append events compensating the given events, latest first
+ */
+async function compensate(
+  ctx: MutationCtx,
+  args: { userId: string; deviceId: string; appId: string },
+  eventIds: string[]
+) {
+  const consent = await ctx.db
+    .query("userConsent")
+    .withIndex("by_user_active", (q) =>
+      q.eq("userId", args.userId).eq("isActive", true)
+    )
+    .first();
+
+  if (!consent) {
+    return { success: false as const, code: "CONSENT_REQUIRED", error: "No active consent" };
+  }
+
+  // Consecutive timestamps keep the compensating events in order
+  const now = Date.now();
+  const events: EventInput[] = [];
+
+  for (const eventId of [...eventIds].reverse()) {
+    const live = await ctx.db
+      .query("events")
+      .withIndex("by_user_app_event", (q) =>
+        q.eq("userId", args.userId).eq("appId", args.appId).eq("eventId", eventId)
+      )
+      .first();
+
+    // Compaction may have archived it since
+    const archived = live ? null : await ctx.db
+      .query("archivedEvents")
+      .withIndex("by_user_app_event", (q) =>
+        q.eq("userId", args.userId).eq("appId", args.appId).eq("eventId", eventId)
+      )
+      .first();
+
+    const original: LoggedEvent | undefined = live ?? archived?.event;
+    if (!original) {
+      continue;
+    }
+
+    const inverse = await buildInverseEvent(ctx, original, now + events.length);
+    if (inverse) {
+      events.push(inverse);
+    }
+  }
+
+  const result = await ingestEvents(ctx, {
+    userId: args.userId,
+    deviceId: args.deviceId,
+    appId: args.appId,
+    events,
+    consentSnapshotId: consent.snapshotId,
+    undo: "none",
+    atomic: true,
+  });
+
+  const rejected = result.results.filter((r) => r.status === "rejected");
+  if (rejected.length > 0) {
+    return {
+      success: false as const,
+      code: "COMPENSATION_REJECTED",
+      error: "A compensating event was rejected",
+      results: rejected,
+    };
+  }
+
+  return { success: true as const, compensatingEventIds: events.map((e) => e.eventId) };
+}
+
+/**
+ * Build the event that reverses an event, from the task's prior state
+ *
+ * Returns null if the event had no effect to reverse (e.g. completing a
+ * task that was already complete).
+ */
+async function buildInverseEvent(
+  ctx: MutationCtx,
+  original: LoggedEvent,
+  timestamp: number
+): Promise<EventInput | null> {
+  const { eventType, payload } = upcastEvent(original);
+  const taskId: string | undefined = payload?.taskId;
+  if (!isUndoableEventType(eventType) || !taskId) {
+    return null;
+  }
+
+  const before = await reconstructTaskStateBefore(ctx, original.userId, taskId, original);
+
+  const inverse = (type: string, fields: Record<string, unknown> = {}): EventInput => ({
+    eventId: generateEventId(timestamp),
+    timestamp,
+    eventType: `tasks.task.${type}`,
+    schemaVersion: 1,
+    payload: { taskId, ...fields },
+  });
+
+  switch (eventType) {
+    case "tasks.task.created":
+    case "tasks.task.updated":
+      // An update that created the task is undone like a create
+      if (!before) return inverse("deleted");
+      return inverse("updated", previousValues(before, payload));
+
+    case "tasks.task.deleted":
+      return before && !before.tombstoned ? inverse("restored") : null;
+
+    case "tasks.task.restored":
+      return before?.tombstoned ? inverse("deleted") : null;
+
+    case "tasks.task.completed":
+      return before && !before.completed ? inverse("uncompleted") : null;
+
+    case "tasks.task.uncompleted":
+      return before?.completed
+        ? inverse("completed", { completedAt: before.completedAt ?? null })
+        : null;
+
+    case "tasks.task.moved":
+      return before ? inverse("moved", { listId: before.listId, sortOrder: before.sortOrder }) : null;
+
+    case "tasks.task.reordered":
+      return before ? inverse("reordered", { sortOrder: before.sortOrder }) : null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * The prior values of the fields an update payload wrote
+ *
+ * Nullable fields that were unset are cleared with null; other unset
+ * fields can't be expressed in a payload and are left as they are.
+ */
+function previousValues(before: TaskState, payload: Record<string, unknown>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  for (const field of Object.keys(payload)) {
+    if (field === "taskId") {
+      continue;
+    }
+
+    const value = before[field];
+    if (value !== undefined) {
+      values[field] = value;
+    } else if (NULLABLE_TASK_FIELDS.includes(field)) {
+      values[field] = null;
+    }
+  }
+
+  return values;
+}